@@ -1 +1,43 @@
 export * from "./src/codemod.ts";
+export * from "./src/memfs.ts";
+export { tsProject } from "./src/project.ts";
+export type { Journal, JournalEntry, JournalRun } from "./src/transaction.ts";
+export { unifiedDiff } from "./src/diff.ts";
+export { jsonc, parseJSONC } from "./src/jsonc.ts";
+export { parseYAML, yaml } from "./src/yaml.ts";
+export { parseTOML, toml } from "./src/toml.ts";
+export * from "./src/markdown.ts";
+export * from "./src/text.ts";
+export * from "./src/structural.ts";
+export * from "./src/jsx.ts";
+export * from "./src/migrations.ts";
+export * from "./src/move.ts";
+export {
+  DEFAULT_EXPORT,
+  NAMESPACE,
+  type RenameCollision,
+  type RewriteImportsOptions,
+  rewriteSourceFileImports,
+  type SymbolMap,
+  type SymbolRewrite,
+} from "./src/imports.ts";
+export { type ReviewOptions, reviewPatches } from "./src/review.ts";
+export {
+  type CodeModEvent,
+  type ConfirmationRequest,
+  consoleReporter,
+  type DiffLine,
+  type Reporter,
+  reporterOf,
+  type ReviewRequest,
+} from "./src/reporter.ts";
+export {
+  type CodeModReport,
+  type DependencyUpgradeReport,
+  type FileReport,
+  type MatchReport,
+  type ReportCollector,
+  type ReportedError,
+  reportOf,
+  type SkippedItem,
+} from "./src/report.ts";
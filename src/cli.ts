@@ -0,0 +1,232 @@
+import { parse } from "@std/flags";
+import { relative, resolve, toFileUrl } from "@std/path";
+import {
+  codeMod,
+  CodeModConflictError,
+  type CodeModOptions,
+} from "./codemod.ts";
+import { denoFmtFormatters } from "./formatter.ts";
+import { DEFAULT_FS } from "./fs.ts";
+
+/**
+ * The exit codes of the codemod runner.
+ */
+export const EXIT_CODES = {
+  // the codemod ran: its changes were applied, there was nothing to change or it was a dry run.
+  OK: 0,
+  // the codemod failed.
+  ERROR: 1,
+  // invalid arguments, or the module does not export a codemod.
+  USAGE: 2,
+  // --check found files that the codemod would change.
+  CHANGES: 3,
+  // the targets produced conflicting changes.
+  CONFLICTS: 4,
+  // the user declined the changes.
+  DECLINED: 5,
+} as const;
+
+const USAGE = `Usage: codemod <module> [options]
+
+Runs the codemod (CodeModOptions) exported by default from a local module or a
+jsr:, npm: or https: specifier.
+
+Options:
+  --cwd <dir>     runs the codemod in another directory
+  --dry-run       prints the changes as a unified diff, nothing is applied
+  --yes           applies the changes without asking
+  --check         exits with ${EXIT_CODES.CHANGES} if the codemod would change any file, nothing is applied
+  --only <glob>   restricts the codemod to the files matching the glob, can be repeated
+  --report json   prints the result as JSON to stdout, logs go to stderr
+  --allow-pre     upgradeDeps also considers prereleases
+  --force         upgradeDeps also upgrades dependencies without a semver version
+  -h, --help      prints this help
+
+Exit codes:
+  ${EXIT_CODES.OK}  the codemod ran (changes applied, nothing to change or dry run)
+  ${EXIT_CODES.ERROR}  the codemod failed
+  ${EXIT_CODES.USAGE}  invalid arguments or module
+  ${EXIT_CODES.CHANGES}  --check found files to change
+  ${EXIT_CODES.CONFLICTS}  the targets produced conflicting changes
+  ${EXIT_CODES.DECLINED}  the changes were declined`;
+
+/**
+ * Represents the reports the runner can print.
+ */
+export type ReportFormat = "json";
+
+const REPORT_FORMATS: ReportFormat[] = ["json"];
+
+/**
+ * Represents the parsed command line of the runner.
+ */
+export interface CliArgs {
+  module: string;
+  cwd?: string;
+  dryRun: boolean;
+  yes: boolean;
+  check: boolean;
+  only: string[];
+  report?: ReportFormat;
+}
+
+/**
+ * Thrown when the command line or the codemod module is invalid.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Parses the command line of the runner.
+ * @param {string[]} args - The command line arguments.
+ * @returns {CliArgs | undefined} The parsed arguments, undefined if the help was requested.
+ * @throws {UsageError} - Throws if an argument is unknown or invalid.
+ */
+export const parseArgs = (args: string[]): CliArgs | undefined => {
+  const flags = parse(args, {
+    boolean: ["dry-run", "yes", "check", "help", "allow-pre", "force"],
+    string: ["cwd", "only", "report"],
+    collect: ["only"],
+    alias: { h: "help" },
+    unknown: (arg: string, key?: string) => {
+      if (key) {
+        throw new UsageError(`unknown option ${arg}`);
+      }
+      return true;
+    },
+  });
+  if (flags.help) {
+    return undefined;
+  }
+  const [module, ...rest] = flags._.map(String);
+  if (!module) {
+    throw new UsageError("missing the codemod module");
+  }
+  if (rest.length > 0) {
+    throw new UsageError(`unexpected arguments ${rest.join(" ")}`);
+  }
+  const report = flags.report as ReportFormat | undefined;
+  if (report !== undefined && !REPORT_FORMATS.includes(report)) {
+    throw new UsageError(
+      `unknown report ${report}, expected one of ${REPORT_FORMATS.join(", ")}`,
+    );
+  }
+  return {
+    module,
+    cwd: flags.cwd,
+    dryRun: flags["dry-run"],
+    yes: flags.yes,
+    check: flags.check,
+    only: flags.only as string[],
+    report,
+  };
+};
+
+/**
+ * Converts the module argument to an importable specifier.
+ * @param {string} module - A local path or a specifier with a scheme (jsr:, npm:, https:, file:).
+ * @returns {string} The specifier, local paths become file URLs.
+ */
+const specifierOf = (module: string): string =>
+  // windows drive letters look like a scheme too.
+  /^[a-z][a-z0-9+.-]+:/i.test(module)
+    ? module
+    : toFileUrl(resolve(module)).href;
+
+/**
+ * Loads the codemod exported by default from a module.
+ * @param {string} module - A local path or a specifier.
+ * @returns {Promise<CodeModOptions>} The codemod options.
+ * @throws {UsageError} - Throws if the module does not export a codemod by default.
+ */
+const loadCodeMod = async (module: string): Promise<CodeModOptions> => {
+  const { default: options } = await import(specifierOf(module));
+  if (typeof options !== "object" || !Array.isArray(options?.targets)) {
+    throw new UsageError(
+      `${module} must export a codemod (an object with targets) by default`,
+    );
+  }
+  return options;
+};
+
+/**
+ * Runs a codemod module from the command line.
+ * @param {string[]} args - The command line arguments.
+ * @returns {Promise<number>} The exit code, see EXIT_CODES.
+ */
+export const main = async (args: string[]): Promise<number> => {
+  let cli: CliArgs | undefined;
+  try {
+    cli = parseArgs(args);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+  if (!cli) {
+    console.log(USAGE);
+    return EXIT_CODES.OK;
+  }
+  const { module, dryRun, yes, check, only, report } = cli;
+  const cwd = resolve(cli.cwd ?? Deno.cwd());
+  const { log, info } = console;
+  if (report) {
+    // stdout is reserved for the report.
+    console.log = console.info = console.error;
+  }
+  try {
+    const options = await loadCodeMod(module);
+    const fs = options.context?.fs ?? DEFAULT_FS;
+    const result = await codeMod({
+      ...options,
+      context: {
+        ...options.context,
+        fs: { ...fs, cwd: () => cwd },
+        // the fs is always set here, so the default formatters must be too.
+        formatters: options.context?.formatters ??
+          denoFmtFormatters({ cwd }),
+      },
+      dryRun: options.dryRun || dryRun || check,
+      // the runner asks before applying, unless the module decides otherwise.
+      yPrompt: options.yPrompt ?? !yes,
+      yes: options.yes || yes,
+      only: only.length > 0 ? only : options.only,
+      patchOutput: dryRun && !report
+        ? Deno.stdout.writable
+        : options.patchOutput,
+      reportOutput: report ? Deno.stdout.writable : options.reportOutput,
+    });
+    if (check && !report) {
+      for (const { operation, path } of result.changes) {
+        console.log(`${operation} ${relative(cwd, path)}`);
+      }
+    }
+    if (check && result.changes.length > 0) {
+      return EXIT_CODES.CHANGES;
+    }
+    return result.dryRun || result.applied || result.changes.length === 0
+      ? EXIT_CODES.OK
+      : EXIT_CODES.DECLINED;
+  } catch (err) {
+    if (report && err instanceof UsageError) {
+      // codeMod did not run, so it did not write the report.
+      log(JSON.stringify({ errors: [{ message: err.message }] }, null, 2));
+    }
+    console.error(err instanceof UsageError ? err.message : err);
+    return err instanceof UsageError
+      ? EXIT_CODES.USAGE
+      : err instanceof CodeModConflictError
+      ? EXIT_CODES.CONFLICTS
+      : EXIT_CODES.ERROR;
+  } finally {
+    console.log = log;
+    console.info = info;
+  }
+};
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
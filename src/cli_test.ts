@@ -0,0 +1,46 @@
+import { assertEquals } from "@std/assert";
+import { join, toFileUrl } from "@std/path";
+import { EXIT_CODES, main } from "./cli.ts";
+
+const MODULE = `
+import { inMemoryFS } from "${import.meta.resolve("./memfs.ts")}";
+
+export const asked = [];
+export const fs = inMemoryFS({ "a.txt": "a" });
+
+export default {
+  targets: [{ apply: ({ path }) => ({ path, content: "b" }) }],
+  context: {
+    fs,
+    formatters: {},
+    reporter: {
+      report: () => {},
+      confirm: ({ message }) => {
+        asked.push(message);
+        return false;
+      },
+      review: () => undefined,
+    },
+  },
+  journal: false,
+};
+`;
+
+Deno.test("main asks before applying unless --yes is set", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const path = join(dir, "codemod.js");
+    await Deno.writeTextFile(path, MODULE);
+    const { asked, fs } = await import(toFileUrl(path).href);
+
+    assertEquals(await main([path, "--cwd", "/"]), EXIT_CODES.DECLINED);
+    assertEquals(asked, ["Do you want to proceed?"]);
+    assertEquals(fs.snapshot(), { "a.txt": "a" });
+
+    assertEquals(await main([path, "--cwd", "/", "--yes"]), EXIT_CODES.OK);
+    assertEquals(asked.length, 1);
+    assertEquals(fs.snapshot(), { "a.txt": "b" });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
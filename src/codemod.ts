@@ -1,16 +1,43 @@
-import { brightGreen, brightRed, brightYellow, gray } from "@std/fmt/colors";
-import { ensureFile, exists, walk } from "@std/fs";
+import type { walk } from "@std/fs";
 import type { WalkOptions } from "@std/fs/walk";
-import * as diff from "npm:diff@5.1.0";
-import {
-  type ImportDeclarationStructure,
-  Project,
-  type SourceFile,
-  StructureKind,
-} from "npm:ts-morph@^21.0";
+import { basename, extname, join, relative, SEPARATOR } from "@std/path";
+import * as diff from "npm:diff@8.0.4";
+import type { Project, SourceFile } from "npm:ts-morph@^21.0";
 import type { DenoJSON } from "./denoJSON.ts";
-import { format } from "./formatter.ts";
-import { upgradeDeps as upgradeImportMapDeps } from "./update.lib.ts";
+import { unifiedDiff } from "./diff.ts";
+import { denoFmtFormatters, type Formatter } from "./formatter.ts";
+import { DEFAULT_FS, writeOutput } from "./fs.ts";
+import { targetFiles } from "./ignore.ts";
+import { importMapOf, importSpecifierFor, moduleIdOf } from "./importMap.ts";
+import {
+  type RewriteImportsOptions,
+  rewriteSourceFileImports,
+  type SymbolMap,
+} from "./imports.ts";
+import { jsonc } from "./jsonc.ts";
+import {
+  flushTsProject,
+  syncTsSourceFile,
+  tsProject,
+  tsSourceFile,
+} from "./project.ts";
+import {
+  buildReport,
+  type CodeModReport,
+  type ReportCollector,
+  reportOf,
+} from "./report.ts";
+import { type Reporter, reporterOf } from "./reporter.ts";
+import { reviewPatches } from "./review.ts";
+import {
+  applyTransaction,
+  type JournalRun,
+  revertTransaction,
+} from "./transaction.ts";
+import {
+  upgradeDeps as upgradeImportMapDeps,
+  type UpgradeOptions,
+} from "./update.lib.ts";
 
 /**
  * Represents a text file with its path and content.
@@ -55,6 +82,40 @@ export interface CreateFileMod {
  */
 export type FileMod = PatchFileMod | DeleteFileMod | CreateFileMod;
 
+/**
+ * Returns a path relative to the cwd of a codemod, as reported to its reporter.
+ * @param {CodeModContext} ctx - The codemod context.
+ * @param {string} path - The absolute path.
+ * @returns {string} The relative path.
+ */
+const relativeTo = (ctx: CodeModContext, path: string): string =>
+  relative(ctx.fs.cwd(), path).replaceAll(SEPARATOR, "/");
+
+// the context of the run each idempotency verification run verifies.
+const VERIFIED_RUNS = new WeakMap<object, CodeModContext>();
+const PUBLISHED_VERSIONS = new WeakMap<
+  CodeModContext,
+  Map<string, Promise<string[]>>
+>();
+
+/**
+ * Returns the published versions of the dependencies looked up by a run, shared with its
+ * idempotency verification run so the registries are queried once.
+ * @param {CodeModContext} ctx - The codemod context.
+ * @returns {Map<string, Promise<string[]>>} The versions by deno.json path and import map key.
+ */
+const publishedVersionsOf = (
+  ctx: CodeModContext,
+): Map<string, Promise<string[]>> => {
+  const run = VERIFIED_RUNS.get(ctx) ?? ctx;
+  let versions = PUBLISHED_VERSIONS.get(run);
+  if (!versions) {
+    versions = new Map();
+    PUBLISHED_VERSIONS.set(run, versions);
+  }
+  return versions;
+};
+
 /**
  * Checks if a file modification is a delete operation.
  * @param {FileMod} f - The file modification to check.
@@ -73,6 +134,164 @@ const isPatch = (f: FileMod): f is PatchFileMod => {
   return "from" in f && "to" in f && !(f as DeleteFileMod)?.to?.deleted;
 };
 
+/**
+ * Checks if a file modification moves a file to a different path.
+ * @param {FileMod} f - The file modification to check.
+ * @returns {f is PatchFileMod} True if the modification is a rename operation.
+ */
+const isRename = (f: FileMod): f is PatchFileMod => {
+  return isPatch(f) && f.from.path !== f.to.path;
+};
+
+/**
+ * The kind of change a file modification performs.
+ */
+export type FileChangeOperation = "create" | "modify" | "delete" | "rename";
+
+/**
+ * Describes a single file change with its content before and after the codemod.
+ */
+export interface FileChange {
+  operation: FileChangeOperation;
+  path: string;
+  // the original path, only set for renames.
+  from?: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Summary counts of the changes produced by a codemod.
+ */
+export interface CodeModSummary {
+  created: number;
+  modified: number;
+  deleted: number;
+  renamed: number;
+}
+
+/**
+ * Describes two or more targets producing colliding changes to the same path.
+ */
+export interface CodeModConflict {
+  path: string;
+  // the targets involved, in the order they changed the path.
+  targets: string[];
+  reason: string;
+}
+
+/**
+ * Thrown when the targets of a codemod produce colliding changes.
+ */
+export class CodeModConflictError extends Error {
+  conflicts: CodeModConflict[];
+
+  constructor(conflicts: CodeModConflict[]) {
+    super(
+      `conflicting changes:\n${
+        conflicts.map(({ path, targets, reason }) =>
+          `  ${path}: ${reason} (${targets.join(", ")})`
+        ).join("\n")
+      }`,
+    );
+    this.name = "CodeModConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Thrown when running the targets again on the result of a codemod changes it again.
+ */
+export class CodeModIdempotencyError extends Error {
+  // the changes of the second run.
+  patches: FileMod[];
+
+  constructor(patches: FileMod[], diff: string) {
+    super(`the codemod is not idempotent, running it again changes:\n${diff}`);
+    this.name = "CodeModIdempotencyError";
+    this.patches = patches;
+  }
+}
+
+/**
+ * Represents the outcome of a codemod run.
+ */
+export interface CodeModResult {
+  name?: string;
+  description?: string;
+  dryRun: boolean;
+  // whether the changes were written to the filesystem.
+  applied: boolean;
+  // a single net modification per file.
+  patches: FileMod[];
+  changes: FileChange[];
+  summary: CodeModSummary;
+  // only set when allowConflicts is true, otherwise conflicts are thrown.
+  conflicts: CodeModConflict[];
+  report: CodeModReport;
+}
+
+/**
+ * Describes a file modification as a FileChange.
+ * @param {FileMod} f - The file modification to describe.
+ * @returns {FileChange | undefined} The file change, or undefined if the modification is a no-op.
+ */
+const toFileChange = (f: FileMod): FileChange | undefined => {
+  if (isDelete(f)) {
+    return {
+      operation: "delete",
+      path: f.from.path,
+      before: f.from.content,
+    };
+  }
+  if (isRename(f)) {
+    return {
+      operation: "rename",
+      path: f.to.path,
+      from: f.from.path,
+      before: f.from.content,
+      after: f.to.content,
+    };
+  }
+  if (isPatch(f)) {
+    if (f.from.content === f.to.content) {
+      return undefined;
+    }
+    return {
+      operation: "modify",
+      path: f.to.path,
+      before: f.from.content,
+      after: f.to.content,
+    };
+  }
+  return { operation: "create", path: f.to.path, after: f.to.content };
+};
+
+/**
+ * Collapses the modifications of a run into a single net modification per original file,
+ * e.g. a file modified by a target and renamed by another one becomes a single rename.
+ * @param {FileMod[]} patches - The modifications, in the order they were produced.
+ * @returns {FileMod[]} The net modifications, in the order files were first changed.
+ */
+const collapse = (patches: FileMod[]): FileMod[] => {
+  const mods: { from?: TextFile; to: TextFile | Delete }[] = [];
+  // the net modification of the file currently at each path.
+  const current = new Map<string, (typeof mods)[number]>();
+  for (const patch of patches) {
+    const from = "from" in patch ? patch.from : undefined;
+    let mod = from && current.get(from.path);
+    if (!mod) {
+      mod = { from, to: patch.to };
+      mods.push(mod);
+    }
+    from && current.delete(from.path);
+    mod.to = patch.to;
+    "deleted" in patch.to || current.set(patch.to.path, mod);
+  }
+  // files created and deleted in the same run are left untouched.
+  return mods.filter((mod) => mod.from || !("deleted" in mod.to)) as FileMod[];
+};
+
 /**
  * Provides filesystem operations and the current working directory.
  */
@@ -86,6 +305,11 @@ export interface CodeModContext {
     readTextFile: (path: string) => Promise<string>;
     walk: typeof walk;
   };
+  // the formatters of the written files keyed by extension (e.g. ".md"), files without one are written as is.
+  // defaults to deno fmt for the extensions it supports when running on the real filesystem.
+  formatters?: Record<string, Formatter>;
+  // receives the output of the run (planned files, diffs, upgrades...), defaults to the console.
+  reporter?: Reporter;
 }
 
 export type OptPath<TType extends { path: string }> = Omit<TType, "path"> & {
@@ -136,6 +360,14 @@ export interface TsFile {
   path: string;
 }
 
+/**
+ * Represents a TypeScript file that belongs to the project shared by the codemod run.
+ */
+export interface TsProjectFile extends TsFile {
+  // every TypeScript file of the run, used to resolve types and references across files.
+  project: Project;
+}
+
 /**
  * A function type for patching TypeScript files.
  * @template TContext The type of the CodeModContext.
@@ -143,7 +375,7 @@ export interface TsFile {
 export type TsPatcher<
   TContext extends CodeModContext = CodeModContext,
 > = (
-  text: TsFile,
+  text: TsProjectFile,
   ctx: TContext,
 ) => Promise<OptPath<TsFile> | Delete> | (OptPath<TsFile> | Delete);
 
@@ -176,7 +408,7 @@ async ({ path, content }, ctx) => {
 };
 
 /**
- * Creates a CodeModTarget for modifying Deno JSON files.
+ * Creates a CodeModTarget for modifying Deno JSON(C) files, keeping comments and formatting.
  * @template TContext The type of the CodeModContext.
  * @param {JsonPatcher<DenoJSON, TContext>} f - The JSON patcher function for Deno JSON files.
  * @returns {CodeModTarget<TContext>} A CodeModTarget object.
@@ -185,26 +417,94 @@ export const denoJSON = <
   TContext extends CodeModContext = CodeModContext,
 >(f: JsonPatcher<DenoJSON, TContext>): CodeModTarget<TContext> => {
   return {
-    options: { match: [/deno.json(c?)$/] },
-    apply: json(f),
+    include: ["**/deno.json", "**/deno.jsonc"],
+    apply: jsonc(f),
   };
 };
 
 /**
  * Creates a CodeModTarget for upgrading dependencies in Deno JSON files.
  * @template TContext The type of the CodeModContext.
+ * The upgrades, skipped dependencies and registry errors are sent to the context reporter.
  * @param {RegExp} [packagesToCheck] - A regular expression to match packages to check for updates.
+ * @param {boolean} [logs=false] - Whether to also report the progress of the lookup.
+ * @param {UpgradeOptions} [options] - The upgrade options, read from the command line flags by default.
  * @returns {CodeModTarget<TContext>} A CodeModTarget object.
  */
 export const upgradeDeps = <
   TContext extends CodeModContext = CodeModContext,
->(packagesToCheck?: RegExp, logs: boolean = false): CodeModTarget<TContext> => {
-  return denoJSON(async (denoJSONFile) => {
+>(
+  packagesToCheck?: RegExp,
+  logs: boolean = false,
+  options?: UpgradeOptions,
+): CodeModTarget<TContext> => {
+  return denoJSON(async (denoJSONFile, ctx) => {
     const updatedDenoJSON = {
       ...denoJSONFile.content,
       imports: denoJSONFile.content.imports ?? {},
     };
-    await upgradeImportMapDeps(updatedDenoJSON, logs, packagesToCheck);
+    const { path } = denoJSONFile;
+    const collector = reportOf(ctx);
+    const reporter = reporterOf(ctx);
+    // the callbacks were already called by the verified run.
+    const callbacks = VERIFIED_RUNS.has(ctx) ? undefined : options;
+    const published = publishedVersionsOf(ctx);
+    const info = (message: string) =>
+      logs && reporter.report({ type: "message", level: "info", message });
+    info(`${relativeTo(ctx, path)}: looking up latest versions`);
+    // the upgrades are reported as events instead of being logged.
+    const upgradeFound = await upgradeImportMapDeps(
+      updatedDenoJSON,
+      false,
+      packagesToCheck,
+      undefined,
+      {
+        ...options,
+        versionsOf: (pkg, url) => {
+          const key = `${path}#${pkg}`;
+          let versions = published.get(key);
+          if (!versions) {
+            versions = options?.versionsOf?.(pkg, url) ?? url.all();
+            published.set(key, versions);
+          }
+          return versions;
+        },
+        onUpgrade: (upgrade) => {
+          collector.upgrades.push({ ...upgrade, path });
+          reporter.report({
+            type: "dependency-upgraded",
+            ...upgrade,
+            path: relativeTo(ctx, path),
+          });
+          callbacks?.onUpgrade?.(upgrade);
+        },
+        onSkip: (pkg, reason) => {
+          collector.skipped.push({ path, item: pkg, reason });
+          reporter.report({
+            type: "file-skipped",
+            path: relativeTo(ctx, path),
+            item: pkg,
+            reason,
+          });
+          callbacks?.onSkip?.(pkg, reason);
+        },
+        onRegistryError: (pkg, error) => {
+          reporter.report({
+            type: "registry-error",
+            path: relativeTo(ctx, path),
+            package: pkg,
+            message: error.message,
+          });
+          callbacks?.onRegistryError?.(pkg, error);
+        },
+      },
+    );
+    upgradeFound ||
+      info(
+        `${
+          relativeTo(ctx, path)
+        }: dependencies are on the most recent releases`,
+      );
     return {
       path: denoJSONFile.path,
       content: updatedDenoJSON,
@@ -222,97 +522,68 @@ export const ts = <TContext extends CodeModContext = CodeModContext>(
   f: TsPatcher<TContext>,
 ): FilePatcher<TContext> =>
 async (txt, ctx) => {
-  const project = new Project();
-  const sourceFile = project.addSourceFileAtPath(txt.path);
-  const prev = sourceFile.print();
-  const out = await f({ content: sourceFile, path: txt.path }, ctx);
+  const project = await tsProject(ctx);
+  const sourceFile = await tsSourceFile(ctx, txt);
+  const out = await f({ content: sourceFile, path: txt.path, project }, ctx);
   if ("deleted" in out) {
+    await syncTsSourceFile(ctx, txt.path, undefined);
     return out;
   }
-  if (prev === out.content.print()) {
-    return {
-      path: out.path,
-      content: txt.content,
-    };
+  const path = out.path ?? txt.path;
+  const content = out.content.getFullText() === txt.content
+    ? txt.content
+    : out.content.print();
+  if (path !== txt.path) {
+    await syncTsSourceFile(ctx, txt.path, undefined);
   }
+  await syncTsSourceFile(ctx, path, content);
   return {
     path: out.path,
-    content: out.content.print(),
+    content,
   };
 };
 
-/**
- * A map of symbols and their module specifiers.
- * @typedef {Record<string, Record<string, { moduleSpecifier: string; isTypeOnly?: boolean }>>} SymbolMap
- */
-export type SymbolMap = Record<
-  string,
-  Record<
-    string,
-    { moduleSpecifier: string; isTypeOnly?: boolean; name?: string }
-  >
->;
-
 /**
  * Rewrites import statements in TypeScript files based on a symbol map.
+ * Named, default and namespace imports, re-exports and dynamic imports are rewritten.
+ * Specifiers are matched through the project import map, ignoring versions, and new
+ * specifiers use an existing import map alias of a compatible version when there is one.
+ * Relative keys and module specifiers of the symbol map are relative to the cwd, they are
+ * written relative to each importing file.
  * @param {SymbolMap} symbolMap - A map of symbols to rewrite.
+ * @param {RewriteImportsOptions} [options={}] - The rewrite options.
  * @returns {FilePatcher<CodeModContext>} A file patcher function for rewriting imports.
  */
 export const rewriteImport = (
   symbolMap: SymbolMap,
+  options: RewriteImportsOptions = {},
 ): FilePatcher =>
-  ts(({ content: sourceFile, path }) => {
-    const importDeclarations = sourceFile.getImportDeclarations();
-    const newImports: Record<string, ImportDeclarationStructure> = {};
-
-    importDeclarations.forEach((importDecl) => {
-      const moduleSpecifier = importDecl.getModuleSpecifierValue();
-      const namedImports = importDecl.getNamedImports();
-      const symbolMapForModule = symbolMap[moduleSpecifier];
-
-      if (symbolMapForModule) {
-        namedImports.forEach((namedImport) => {
-          const name = namedImport.getName();
-          const alias = namedImport.getAliasNode()?.getText();
-          const isTypeOnly = namedImport.isTypeOnly();
-          const rewriter = symbolMapForModule[name];
-          if (rewriter) {
-            const {
-              moduleSpecifier: newModuleSpecifier,
-              isTypeOnly: newIsTypeOnly,
-            } = rewriter;
-            namedImport.remove();
-            if (!newImports[newModuleSpecifier]) {
-              newImports[newModuleSpecifier] = {
-                kind: StructureKind.ImportDeclaration,
-                moduleSpecifier: newModuleSpecifier,
-                namedImports: [],
-              };
-            }
-            const namedImports = newImports[newModuleSpecifier].namedImports;
-            if (Array.isArray(namedImports)) {
-              // this avoids breaking change when referencing the same symbol multiple times
-              const nameAsAlias = typeof rewriter.name !== "undefined"
-                ? name
-                : undefined;
-              namedImports.push({
-                name: rewriter.name ?? name,
-                alias: alias ?? nameAsAlias,
-                isTypeOnly: newIsTypeOnly ?? isTypeOnly,
-              });
-            }
-          }
-        });
-        if (importDecl.getNamedImports().length === 0) {
-          importDecl.remove();
-        }
-      }
-    });
-
-    Object.values(newImports).forEach((importStructure) => {
-      sourceFile.addImportDeclaration(importStructure);
+  ts(async ({ content: sourceFile, path }, ctx) => {
+    const importMap = await importMapOf(ctx);
+    // keys are resolved like the specifiers of a module at the root of the project.
+    const root = join(ctx.fs.cwd(), "deno.json");
+    const symbols: SymbolMap = {};
+    for (const [specifier, rewriters] of Object.entries(symbolMap)) {
+      const id = moduleIdOf(importMap, specifier, root);
+      symbols[id] = { ...symbols[id], ...rewriters };
+    }
+    const collisions = rewriteSourceFileImports(sourceFile, symbols, {
+      ...options,
+      resolve: (specifier) => moduleIdOf(importMap, specifier, path),
+      specifierFor: (specifier) =>
+        importSpecifierFor(importMap, specifier, path, ctx.fs.cwd()),
     });
-
+    for (const { name, newName } of collisions) {
+      const reason =
+        `${name} was not renamed to ${newName} because ${newName} is already declared, it was aliased instead`;
+      reportOf(ctx).skipped.push({ path, item: name, reason });
+      reporterOf(ctx).report({
+        type: "file-skipped",
+        path: relativeTo(ctx, path),
+        item: name,
+        reason,
+      });
+    }
     return {
       content: sourceFile,
       path,
@@ -323,20 +594,18 @@ export const rewriteImport = (
  * Creates a CodeModTarget for rewriting imports in TypeScript files.
  * @template TContext The type of the CodeModContext.
  * @param {SymbolMap} symbolMap - A map of symbols to rewrite.
+ * @param {RewriteImportsOptions} [options={}] - The rewrite options.
  * @returns {CodeModTarget<TContext>} A CodeModTarget object.
  */
 export const rewriteImports = <
   TContext extends CodeModContext = CodeModContext,
 >(
   symbolMap: SymbolMap,
+  options: RewriteImportsOptions = {},
 ): CodeModTarget<TContext> => {
   return {
-    options: {
-      match: [/.ts(x?)$/],
-      skip: [/node_modules/, /.git/],
-      includeDirs: false,
-    },
-    apply: rewriteImport(symbolMap),
+    include: ["**/*.ts", "**/*.tsx"],
+    apply: rewriteImport(symbolMap, options),
   };
 };
 
@@ -353,103 +622,100 @@ export interface CodeMod<
   ctx: TContext;
   // if it should prompt user a confirmation prompt.
   yPrompt?: boolean;
+  // the undo journal path relative to the cwd, false disables the journal.
+  journal?: string | false;
+  // if it should ask about each file instead of a single confirmation.
+  review?: boolean;
+  // if true, the changes are applied without asking.
+  yes?: boolean;
 }
 
-/**
- * Applies a file patch.
- * @param {FileMod} p - The file modification.
- * @param {CodeModContext} ctx - The code modification context.
- * @returns {Promise<void>} A promise that resolves when the patch is applied.
- */
-const applyPatch = async (p: FileMod, ctx: CodeModContext): Promise<void> => {
-  if (isDelete(p)) {
-    await ctx.fs.remove(p.from.path).catch(() => {});
-  } else {
-    if (isPatch(p)) {
-      if (p.from.path !== p.to.path) {
-        await ctx.fs.remove(p.from.path).catch(() => {});
-      } else if (p.from.content === p.to.content) {
-        return;
-      }
-    }
-    await ctx.fs.ensureFile(p.to.path);
-    await ctx.fs.writeTextFile(p.to.path, p.to.content);
-  }
-};
-
 /**
  * Applies a code modification.
  * @param {CodeMod} mod - The code modification.
- * @returns {Promise<void>} A promise that resolves when the code modification is applied.
+ * @returns {Promise<boolean>} A promise that resolves to whether the code modification was applied.
  */
 const applyCodeMod = async (
-  { patches, name, description, ctx, yPrompt }: CodeMod,
-) => {
-  const yesToAll = !yPrompt || Boolean(Deno.args.find((x) => x === "--y"));
-  for (const patch of patches) {
-    if (isDelete(patch)) {
-      console.log(`🚨 ${brightRed(patch.from.path)} will be deleted.`);
-      continue;
-    }
-
-    const { content, path: fromPath } = isPatch(patch)
-      ? patch.from
-      : { content: "", path: "" };
+  { patches, name, description, ctx, yPrompt, journal, review, yes }: CodeMod,
+): Promise<boolean> => {
+  const reporter = reporterOf(ctx);
+  if (review && !yes) {
+    description &&
+      reporter.report({
+        type: "message",
+        level: "info",
+        message: `These changes ${description}`,
+      });
+    const accepted = await reviewPatches(patches, ctx.fs.cwd(), { reporter });
+    if (accepted.length === 0) return false;
 
-    if (content === patch.to.content && fromPath === patch.to.path) {
-      continue;
-    }
-
-    const prettyPath = fromPath.replaceAll(ctx.fs.cwd(), ".");
-
-    const linesDiff = diff.diffLines(
-      content,
-      await format(patch.to.content).then((formatted) =>
-        formatted ?? patch.to.content
-      ).catch(() => patch.to.content),
-    );
-
-    if (linesDiff.length === 1 && fromPath === patch.to.path) {
-      const change = linesDiff[0].added ? "(new file)" : undefined;
-      if (change) {
-        console.log(gray(`✅ ${prettyPath} ${change}`));
-      }
+    reporter.report({ type: "applying", name, description });
+    await applyTransaction(accepted, ctx.fs, { name, description }, journal);
+    return true;
+  }
+  const yesToAll = !yPrompt || yes;
+  for (const patch of patches) {
+    const change = toFileChange(patch);
+    if (!change) {
       continue;
     }
+    reporter.report({
+      type: "file-planned",
+      operation: change.operation,
+      path: relativeTo(ctx, change.path),
+      ...change.from ? { from: relativeTo(ctx, change.from) } : {},
+    });
 
-    console.log(
-      `⚠️  ${brightYellow(prettyPath)} -> ${
-        brightYellow(patch.to.path.replaceAll(ctx.fs.cwd(), "."))
-      }`,
-    );
-
-    if (yesToAll) continue;
+    if (yesToAll || change.operation === "delete") continue;
 
-    for (const { added, removed, value } of linesDiff) {
-      const color = added ? brightGreen : removed ? brightRed : gray;
-      console.log(color(value));
-    }
+    // the content is already formatted, so the preview matches what is written.
+    reporter.report({
+      type: "diff",
+      path: relativeTo(ctx, change.path),
+      lines: diff.diffLines(change.before ?? "", change.after ?? ""),
+    });
   }
 
-  description && console.log(`These changes ${description}`);
-  const ok = yesToAll || confirm("Do you want to proceed?");
-  if (!ok) return;
-
-  name && console.log(`Applying patch ${name}`);
-  for (const patch of patches) {
-    await applyPatch(patch, ctx);
+  if (yesToAll) {
+    description &&
+      reporter.report({
+        type: "message",
+        level: "info",
+        message: `These changes ${description}`,
+      });
+  } else {
+    const ok = await reporter.confirm({
+      name,
+      description,
+      message: "Do you want to proceed?",
+    });
+    if (!ok) return false;
   }
+
+  reporter.report({ type: "applying", name, description });
+  await applyTransaction(patches, ctx.fs, { name, description }, journal);
+  return true;
 };
 
 /**
  * Represents a target for applying a code modification.
+ * Files ignored by .gitignore or the deno.json `exclude`/`fmt.exclude` are skipped,
+ * as well as .git, node_modules and .codemod.
  * @template TContext The type of the CodeModContext.
  */
 export interface CodeModTarget<
   TContext extends CodeModContext = CodeModContext,
 > {
-  options: WalkOptions;
+  // glob patterns relative to the cwd, e.g. "**/*.ts". Every file is included when not set.
+  include?: string[];
+  // glob patterns relative to the cwd of files to skip.
+  exclude?: string[];
+  // if true, files ignored by .gitignore and deno.json are walked too.
+  includeIgnored?: boolean;
+  options?: WalkOptions;
   apply: FilePatcher<TContext>;
+  // identifies the target in conflict reports, defaults to its index.
+  name?: string;
 }
 
 /**
@@ -465,18 +731,28 @@ export interface CodeModOptions<
   targets: CodeModTarget<TContext & CodeModContext>[];
   // if it should prompt user a confirmation prompt.
   yPrompt?: boolean;
+  // if true, the planned changes are only returned (and written to patchOutput), nothing is printed nor applied.
+  dryRun?: boolean;
+  // the undo journal path relative to the cwd, defaults to .codemod/journal.json. false disables the journal.
+  journal?: string | false;
+  // writes the changes as a unified diff (git apply compatible) to a path relative to the cwd or to a stream.
+  patchOutput?: string | WritableStream<Uint8Array>;
+  // asks about each file (accept, reject, diff, edit, all, quit), only accepted files are applied.
+  review?: boolean;
+  // how many files of a target are patched at the same time, defaults to 1.
+  concurrency?: number;
+  // if true, conflicting changes are returned in the result and the last one wins instead of failing.
+  allowConflicts?: boolean;
+  // if true, the changes are applied without asking. Defaults to whether the script got `--y`.
+  yes?: boolean;
+  // glob patterns relative to the cwd, every target is restricted to the files matching them.
+  only?: string[];
+  // writes a JSON report of the run (files, upgrades, skipped items and errors) to a path relative to the cwd or to a stream, even if it fails.
+  reportOutput?: string | WritableStream<Uint8Array>;
+  // if true, the targets run again on the planned result and the codemod fails, before applying anything, if they change it.
+  verifyIdempotency?: boolean;
 }
 
-const DEFAULT_FS: CodeModContext["fs"] = {
-  cwd: () => Deno.cwd(),
-  remove: Deno.remove,
-  ensureFile: ensureFile,
-  writeTextFile: Deno.writeTextFile,
-  readTextFile: Deno.readTextFile,
-  walk: walk,
-  exists: exists,
-};
-
 /**
  * Represents the default CodeModContext.
  */
@@ -484,11 +760,167 @@ export type DefaultCodeModContext = Omit<CodeModContext, "fs"> & {
   fs?: CodeModContext["fs"];
 };
 
+/**
+ * Formats the new content of the modified and created files, the formatter is selected
+ * by the extension of the new path. Files sharing a formatter are formatted at once when
+ * it supports it. Failures are reported and the content is kept as is.
+ * @param {FileMod[]} patches - The file modifications.
+ * @param {Record<string, Formatter>} formatters - The formatters keyed by extension.
+ * @param {ReportCollector} collector - Receives the formatter failures.
+ * @param {Reporter} reporter - Reports the formatter failures.
+ * @returns {Promise<FileMod[]>} The modifications with formatted content.
+ */
+const formatPatches = async (
+  patches: FileMod[],
+  formatters: Record<string, Formatter>,
+  collector: ReportCollector,
+  reporter: Reporter,
+): Promise<FileMod[]> => {
+  const formatted = [...patches];
+  // the indexes of the patches to format, grouped by formatter.
+  const groups = new Map<Formatter, number[]>();
+  for (const [index, patch] of patches.entries()) {
+    const { to } = patch;
+    if ("deleted" in to) {
+      continue;
+    }
+    const formatter = formatters[extname(to.path)];
+    // files that are only renamed are not reformatted.
+    if (formatter && !("from" in patch && patch.from.content === to.content)) {
+      groups.set(formatter, [...groups.get(formatter) ?? [], index]);
+    }
+  }
+  for (const [formatter, indexes] of groups) {
+    const files = indexes.map((index) => patches[index].to as TextFile);
+    const results: (string | Error)[] = formatter.formatAll
+      ? await formatter.formatAll(files).catch((err: Error) =>
+        files.map(() => err)
+      )
+      : [];
+    for (const [i, index] of indexes.entries()) {
+      const { path, content } = files[i];
+      const result = formatter.formatAll
+        ? results[i]
+        : await formatter.format(content, path).catch((err: Error) => err);
+      if (result instanceof Error) {
+        collector.errors.push({ path, message: result.message });
+        reporter.report({
+          type: "message",
+          level: "error",
+          message: result.message,
+        });
+        continue;
+      }
+      formatted[index] = {
+        ...patches[index],
+        to: { path, content: result },
+      } as FileMod;
+    }
+  }
+  return formatted;
+};
+
+/**
+ * Creates a view of a filesystem with the given modifications applied, nothing is written.
+ * @param {CodeModContext["fs"]} fs - The filesystem.
+ * @param {FileMod[]} patches - The modifications.
+ * @returns {CodeModContext["fs"]} The filesystem with the modifications applied.
+ */
+const overlayFS = (
+  fs: CodeModContext["fs"],
+  patches: FileMod[],
+): CodeModContext["fs"] => {
+  // the content of each changed path, null for deleted files.
+  const next: Record<string, string | null> = {};
+  for (const patch of patches) {
+    if ("from" in patch) {
+      next[patch.from.path] = null;
+    }
+    if (!isDelete(patch)) {
+      next[patch.to.path] = patch.to.content;
+    }
+  }
+  const walk = async function* (
+    root: string | URL,
+    options: WalkOptions = {},
+  ) {
+    for await (const entry of fs.walk(root, options)) {
+      if (next[entry.path] !== null) {
+        yield entry;
+      }
+    }
+    // created files are walked after the existing ones, like created files of a run.
+    const { match, skip = [], exts } = options;
+    for (const path of Object.keys(next).sort()) {
+      if (
+        next[path] !== null && !(await fs.exists(path)) &&
+        path.startsWith(root.toString()) &&
+        (!match || match.some((regex) => regex.test(path))) &&
+        !skip.some((regex) => regex.test(path)) &&
+        (!exts || exts.some((ext) => path.endsWith(ext)))
+      ) {
+        yield {
+          path,
+          name: basename(path),
+          isFile: true,
+          isDirectory: false,
+          isSymlink: false,
+        };
+      }
+    }
+  };
+  return {
+    ...fs,
+    readTextFile: async (path: string) => {
+      const content = next[path];
+      if (content === null) {
+        throw new Deno.errors.NotFound(`${path} was deleted by this codemod`);
+      }
+      return content ?? await fs.readTextFile(path);
+    },
+    exists: async (path: string) =>
+      path in next ? next[path] !== null : await fs.exists(path),
+    walk: walk as typeof fs.walk,
+  };
+};
+
+/**
+ * Runs a task for each item with at most `concurrency` tasks in flight, committing
+ * the results in the order of the items.
+ * @template T The type of the items.
+ * @template R The type of the results.
+ * @param {AsyncIterable<T>} items - The items.
+ * @param {number} concurrency - The maximum number of tasks in flight.
+ * @param {(item: T) => Promise<R>} task - The task to run for each item.
+ * @param {(result: R) => void | Promise<void>} commit - Receives each result, in order.
+ */
+const inOrder = async <T, R>(
+  items: AsyncIterable<T>,
+  concurrency: number,
+  task: (item: T) => Promise<R>,
+  commit: (result: R) => void | Promise<void>,
+) => {
+  const running: Promise<R>[] = [];
+  for await (const item of items) {
+    const result = task(item);
+    // failures are rethrown when the result is committed.
+    result.catch(() => {});
+    running.push(result);
+    if (running.length >= concurrency) {
+      await commit(await running.shift()!);
+    }
+  }
+  for (const result of running) {
+    await commit(await result);
+  }
+};
+
 /**
  * Applies a code modification with the provided options.
  * @template TContext The type of the CodeModContext.
  * @param {CodeModOptions<TContext>} options - The code modification options.
- * @returns {Promise<void>} A promise that resolves when the code modification is applied.
+ * @returns {Promise<CodeModResult>} A promise that resolves to the planned changes and whether they were applied.
+ * @throws {CodeModConflictError} - Throws if targets produce colliding changes, unless allowConflicts is set.
  */
 export const codeMod = async <
   TContext extends DefaultCodeModContext = DefaultCodeModContext,
@@ -498,41 +930,247 @@ export const codeMod = async <
   targets,
   context,
   yPrompt,
-}: CodeModOptions<TContext>): Promise<void> => {
+  dryRun = false,
+  journal,
+  patchOutput,
+  concurrency = 1,
+  allowConflicts = false,
+  review,
+  yes = Deno.args.includes("--y"),
+  only,
+  reportOutput,
+  verifyIdempotency = false,
+}: CodeModOptions<TContext>): Promise<CodeModResult> => {
   const patches: FileMod[] = [];
-  const ctx = { fs: DEFAULT_FS, ...context } ?? ({ fs: DEFAULT_FS });
-  const fsNext: Record<string, string> = {};
+  const conflicts: CodeModConflict[] = [];
+  const fs = context?.fs ?? DEFAULT_FS;
+  // the fs is copied so the overlay below does not leak into the caller's fs.
+  const ctx = { ...context, fs: { ...fs } };
+  const verified = context && VERIFIED_RUNS.get(context);
+  verified && VERIFIED_RUNS.set(ctx, verified);
+  // the planned content of each changed path, null for deleted files.
+  const fsNext: Record<string, string | null> = {};
   const readTextFile = ctx.fs.readTextFile.bind(ctx.fs);
-  ctx.fs.readTextFile = async (path: string) =>
-    fsNext[path] ?? await readTextFile(path);
+  ctx.fs.readTextFile = async (path: string) => {
+    const next = fsNext[path];
+    if (next === null) {
+      throw new Deno.errors.NotFound(`${path} was deleted by this codemod`);
+    }
+    return next ?? await readTextFile(path);
+  };
   const exists = ctx.fs.exists.bind(ctx.fs);
 
   ctx.fs.exists = async (path: string) => {
-    return path in fsNext || await exists(path);
+    return path in fsNext ? fsNext[path] !== null : await exists(path);
   };
+  const collector = reportOf(ctx);
+  // errors of a file are reported with its path, and not again when they reach the run.
+  const reported = new WeakSet<object>();
+  const writeReport = async (result: Partial<CodeModResult>) => {
+    const report = buildReport(result, collector, fs.cwd());
+    reportOutput &&
+      await writeOutput(
+        `${JSON.stringify(report, null, 2)}\n`,
+        reportOutput,
+        fs,
+      );
+    return report;
+  };
+
+  try {
+    // the target that last wrote each path, and the ones that created a path in this run.
+    const writers = new Map<string, string>();
+    const creators = new Map<string, string>();
 
-  for (const target of targets) {
-    for await (const file of ctx.fs.walk(ctx.fs.cwd(), target.options)) {
-      if (file.isFile) {
+    for (const [index, target] of targets.entries()) {
+      const targetName = target.name ?? `targets[${index}]`;
+      // files are patched concurrently, but their output is committed to the overlay in walk order.
+      const created = Object.keys(fsNext).filter((path) =>
+        fsNext[path] !== null
+      );
+      await inOrder(
+        targetFiles(target, ctx, created, only),
+        Math.max(1, concurrency),
+        async (file) => {
+          if (fsNext[file.path] === null) {
+            // deleted by a previous target.
+            return undefined;
+          }
+          const from = {
+            content: await ctx.fs.readTextFile(file.path),
+            path: file.path,
+          };
+          try {
+            const to = await target.apply(
+              from,
+              ctx as TContext & CodeModContext,
+            );
+            return { from, to };
+          } catch (err) {
+            collector.errors.push({
+              path: file.path,
+              target: targetName,
+              message: err instanceof Error ? err.message : String(err),
+            });
+            err instanceof Object && reported.add(err);
+            throw err;
+          }
+        },
+        async (patch) => {
+          if (!patch) {
+            return;
+          }
+          const { from, to } = patch;
+          if ("deleted" in to) {
+            const creator = creators.get(from.path);
+            if (creator && creator !== targetName) {
+              conflicts.push({
+                path: from.path,
+                targets: [creator, targetName],
+                reason: "deletes a file created by another target",
+              });
+            }
+            fsNext[from.path] = null;
+          } else {
+            to.path ??= from.path;
+            if (to.path !== from.path) {
+              if (await ctx.fs.exists(to.path)) {
+                const writer = writers.get(to.path);
+                conflicts.push({
+                  path: to.path,
+                  targets: writer ? [writer, targetName] : [targetName],
+                  reason: `${from.path} is renamed to an existing file`,
+                });
+              }
+              creators.set(to.path, targetName);
+              fsNext[from.path] = null;
+            }
+            fsNext[to.path] = to.content;
+            writers.set(to.path, targetName);
+          }
+          patches.push({ from, to } as FileMod);
+        },
+      );
+      // files changed through the shared ts-morph project, e.g. by a cross-file rename.
+      for (const to of await flushTsProject(ctx)) {
         const from = {
-          content: fsNext[file.path] ??
-            await ctx.fs.readTextFile(file.path),
-          path: file.path,
+          content: await ctx.fs.readTextFile(to.path),
+          path: to.path,
         };
-        const to = await target.apply(
-          from,
-          ctx as TContext & CodeModContext,
+        fsNext[to.path] = to.content;
+        writers.set(to.path, targetName);
+        patches.push({ from, to });
+      }
+    }
+    if (conflicts.length > 0 && !allowConflicts) {
+      throw new CodeModConflictError(conflicts);
+    }
+    const formatters = context?.formatters ??
+      (context?.fs ? {} : denoFmtFormatters({ cwd: fs.cwd() }));
+    const effective = (await formatPatches(
+      collapse(patches),
+      formatters,
+      collector,
+      reporterOf(ctx),
+    )).filter((patch) => toFileChange(patch));
+    const changes = effective.map((patch) => toFileChange(patch)!);
+    const count = (operation: FileChangeOperation) =>
+      changes.filter((change) => change.operation === operation).length;
+
+    if (verifyIdempotency && effective.length > 0) {
+      // the second run sees the formatted result, as it would on disk, and reports nothing.
+      const verification = {
+        ...context as TContext,
+        fs: overlayFS(fs, effective),
+        formatters,
+        reporter: {
+          report: () => {},
+          confirm: () => false,
+          review: () => undefined,
+        },
+      };
+      VERIFIED_RUNS.set(verification, ctx);
+      const second = await codeMod({
+        targets,
+        context: verification,
+        dryRun: true,
+        concurrency,
+        allowConflicts: true,
+        only,
+      });
+      if (second.patches.length > 0) {
+        throw new CodeModIdempotencyError(
+          second.patches,
+          unifiedDiff(second.patches, fs.cwd()),
         );
-        if ("deleted" in to) {
-          fsNext[file.path] = "";
-        } else {
-          to.path ??= from.path;
-          fsNext[from.path] = "";
-          fsNext[to.path] = to.content;
-        }
-        patches.push({ from, to } as FileMod);
       }
     }
+
+    if (patchOutput) {
+      await writeOutput(
+        unifiedDiff(effective, fs.cwd()),
+        patchOutput,
+        fs,
+      );
+    }
+
+    const applied = dryRun ? false : await applyCodeMod({
+      name,
+      description,
+      patches: effective,
+      // changes are applied to the actual fs, without the planning overlay.
+      ctx: { ...ctx, fs },
+      yPrompt,
+      journal,
+      review,
+      yes,
+    });
+
+    const result = {
+      name,
+      description,
+      dryRun,
+      applied,
+      patches: effective,
+      changes,
+      summary: {
+        created: count("create"),
+        modified: count("modify"),
+        deleted: count("delete"),
+        renamed: count("rename"),
+      },
+      conflicts,
+    };
+    return { ...result, report: await writeReport(result) };
+  } catch (err) {
+    if (!(err instanceof Object && reported.has(err))) {
+      collector.errors.push({
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+    await writeReport({ name, description, dryRun, conflicts });
+    throw err;
   }
-  await applyCodeMod({ name, description, patches, ctx, yPrompt });
+};
+
+/**
+ * Represents options for undoing a code modification.
+ */
+export interface UndoOptions {
+  fs?: CodeModContext["fs"];
+  // the undo journal path relative to the cwd, defaults to .codemod/journal.json.
+  journal?: string;
+  // reverts files even if they were changed after the code modification was applied.
+  force?: boolean;
+}
+
+/**
+ * Reverts the most recently applied code modification recorded in the undo journal.
+ * @param {UndoOptions} [options] - The undo options.
+ * @returns {Promise<JournalRun | undefined>} The reverted run, or undefined if there is nothing to undo.
+ */
+export const undo = (
+  { fs = DEFAULT_FS, journal, force }: UndoOptions = {},
+): Promise<JournalRun | undefined> => {
+  return revertTransaction(fs, journal, force);
 };
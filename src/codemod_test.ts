@@ -0,0 +1,368 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  codeMod,
+  CodeModConflictError,
+  CodeModIdempotencyError,
+  denoJSON,
+  rewriteImports,
+  upgradeDeps,
+} from "./codemod.ts";
+import { DEFAULT_EXPORT } from "./imports.ts";
+import { inMemoryFS } from "./memfs.ts";
+import type { CodeModEvent } from "./reporter.ts";
+import { assertIdempotent, testCodeMod } from "./testing.ts";
+
+Deno.test("rewriteImports moves named imports to their new module", async () => {
+  await testCodeMod({
+    input: {
+      "deno.json": `{ "imports": { "$lib/": "./lib/" } }`,
+      "routes/index.ts": [
+        `import { Button, Card } from "$lib/ui.ts";`,
+        `export { Button, Card };`,
+        "",
+      ].join("\n"),
+    },
+    targets: [rewriteImports({
+      "./lib/ui.ts": { Card: { moduleSpecifier: "$lib/card.ts" } },
+    })],
+    expected: {
+      "deno.json": `{ "imports": { "$lib/": "./lib/" } }`,
+      "routes/index.ts": [
+        `import { Button } from "$lib/ui.ts";`,
+        `import { Card } from "$lib/card.ts";`,
+        `export { Button, Card };`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("rewriteImports writes relative module specifiers relative to the importing file", async () => {
+  await testCodeMod({
+    input: {
+      "deno.json": `{ "imports": { "$next/": "./next/" } }`,
+      "routes/a.ts": `import { foo, bar } from "../old/mod.ts";\n`,
+    },
+    targets: [rewriteImports({
+      "./old/mod.ts": {
+        foo: { moduleSpecifier: "./new/mod.ts" },
+        bar: { moduleSpecifier: "./next/mod.ts" },
+      },
+    })],
+    expected: {
+      "deno.json": `{ "imports": { "$next/": "./next/" } }`,
+      "routes/a.ts": [
+        `import { foo } from "../new/mod.ts";`,
+        `import { bar } from "$next/mod.ts";`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("rewriteImports only reuses aliases of a compatible version", async () => {
+  await testCodeMod({
+    input: {
+      "deno.json": `{ "imports": { "@x/y": "jsr:@x/y@^1.0.0" } }`,
+      "a.ts": `import { a, b } from "jsr:@x/z@1";\n`,
+    },
+    targets: [rewriteImports({
+      "jsr:@x/z": {
+        a: { moduleSpecifier: "jsr:@x/y@2/mod.ts" },
+        b: { moduleSpecifier: "jsr:@x/y@^1.2.0/mod.ts" },
+      },
+    })],
+    expected: {
+      "deno.json": `{ "imports": { "@x/y": "jsr:@x/y@^1.0.0" } }`,
+      "a.ts": [
+        `import { a } from "jsr:@x/y@2/mod.ts";`,
+        `import { b } from "@x/y/mod.ts";`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("rewriteImports renames references when renameReferences is set", async () => {
+  await testCodeMod({
+    input: {
+      "mod.ts": [
+        `import old, { useSection } from "./hooks.ts";`,
+        `export const props = useSection(old);`,
+        "",
+      ].join("\n"),
+    },
+    targets: [rewriteImports({
+      "./hooks.ts": {
+        useSection: { moduleSpecifier: "./hooks.ts", name: "useComponent" },
+        [DEFAULT_EXPORT]: { moduleSpecifier: "./hooks.ts" },
+      },
+    }, { renameReferences: true })],
+    expected: {
+      "mod.ts": [
+        `import old, { useComponent } from "./hooks.ts";`,
+        `export const props = useComponent(old);`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("rewriteImports aliases namespace members shadowed where they are accessed", async () => {
+  await testCodeMod({
+    input: {
+      "a.ts": [
+        `import * as ns from "./old.ts";`,
+        `export const f = (X: number) => ns.X + X;`,
+        "",
+      ].join("\n"),
+    },
+    targets: [rewriteImports({
+      "./old.ts": { X: { moduleSpecifier: "./new.ts" } },
+    })],
+    expected: {
+      "a.ts": [
+        `import { X as ns_X } from "./new.ts";`,
+        `export const f = (X: number) => ns_X + X;`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("rewriteImports keeps the default import next to a rewritten namespace import", async () => {
+  await testCodeMod({
+    input: {
+      "a.ts": [
+        `import D, * as ns from "./old.ts";`,
+        `export const f = () => D(ns.X);`,
+        "",
+      ].join("\n"),
+    },
+    targets: [rewriteImports({
+      "./old.ts": { X: { moduleSpecifier: "./new.ts" } },
+    })],
+    expected: {
+      "a.ts": [
+        `import D from "./old.ts";`,
+        `import { X } from "./new.ts";`,
+        `export const f = () => D(X);`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("denoJSON patches deno.jsonc keeping its comments", async () => {
+  await testCodeMod({
+    input: {
+      "deno.jsonc": [
+        `{`,
+        `  // the project tasks`,
+        `  "tasks": {`,
+        `    "start": "deno run -A main.ts"`,
+        `  }`,
+        `}`,
+        "",
+      ].join("\n"),
+    },
+    targets: [denoJSON(({ path, content }) => ({
+      path,
+      content: {
+        ...content,
+        tasks: { ...content.tasks, check: "deno check main.ts" },
+      },
+    }))],
+    expected: {
+      "deno.jsonc": [
+        `{`,
+        `  // the project tasks`,
+        `  "tasks": {`,
+        `    "start": "deno run -A main.ts",`,
+        `    "check": "deno check main.ts"`,
+        `  }`,
+        `}`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("codeMod fails when a target renames a file over another file", async () => {
+  const error = await assertRejects(
+    () =>
+      codeMod({
+        targets: [{
+          name: "rename",
+          include: ["a.ts"],
+          apply: ({ content }) => ({ path: "/b.ts", content }),
+        }],
+        context: { fs: inMemoryFS({ "a.ts": "a", "b.ts": "b" }) },
+        dryRun: true,
+      }),
+    CodeModConflictError,
+  );
+  assertEquals(error.conflicts, [{
+    path: "/b.ts",
+    targets: ["rename"],
+    reason: "/a.ts is renamed to an existing file",
+  }]);
+});
+
+Deno.test("codeMod fails when a target deletes a file created by another one", async () => {
+  await assertRejects(
+    () =>
+      codeMod({
+        targets: [{
+          name: "create",
+          include: ["a.ts"],
+          apply: ({ content }) => ({ path: "/b.ts", content }),
+        }, {
+          name: "delete",
+          include: ["b.ts"],
+          apply: () => ({ deleted: true }),
+        }],
+        context: { fs: inMemoryFS({ "a.ts": "a" }) },
+        dryRun: true,
+      }),
+    CodeModConflictError,
+    "deletes a file created by another target",
+  );
+});
+
+Deno.test("codeMod returns conflicts when allowConflicts is set", async () => {
+  const { conflicts, changes } = await codeMod({
+    targets: [{
+      include: ["a.ts"],
+      apply: ({ content }) => ({ path: "/b.ts", content }),
+    }],
+    context: { fs: inMemoryFS({ "a.ts": "a", "b.ts": "b" }) },
+    dryRun: true,
+    allowConflicts: true,
+  });
+  assertEquals(conflicts.length, 1);
+  assertEquals(changes.map(({ operation, path }) => [operation, path]), [
+    ["rename", "/b.ts"],
+  ]);
+});
+
+Deno.test("codeMod patches up to concurrency files at a time and keeps the walk order", async () => {
+  const names = ["a", "b", "c", "d", "e"];
+  let running = 0;
+  let maxRunning = 0;
+  const { patches } = await codeMod({
+    targets: [{
+      apply: async ({ path, content }) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        // later files finish first.
+        const delay = 5 * (names.length - names.indexOf(path.slice(1, 2)));
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return { path, content: `${content}1` };
+      },
+    }, {
+      // sees the output of the first target.
+      apply: ({ path, content }) => ({ path, content: `${content}2` }),
+    }],
+    context: {
+      fs: inMemoryFS(
+        Object.fromEntries(names.map((name) => [`${name}.txt`, ""])),
+      ),
+    },
+    dryRun: true,
+    concurrency: 3,
+  });
+  assertEquals(maxRunning, 3);
+  assertEquals(
+    patches.map((patch) => "path" in patch.to && patch.to.content),
+    ["12", "12", "12", "12", "12"],
+  );
+  assertEquals(
+    patches.map((patch) => "path" in patch.to && patch.to.path),
+    names.map((name) => `/${name}.txt`),
+  );
+});
+
+Deno.test("codeMod rethrows the error of a file patched concurrently", async () => {
+  await assertRejects(
+    () =>
+      codeMod({
+        targets: [{
+          apply: ({ path, content }) => {
+            if (path === "/b.txt") {
+              throw new Error("b failed");
+            }
+            return { path, content: `${content}1` };
+          },
+        }],
+        context: { fs: inMemoryFS({ "a.txt": "", "b.txt": "", "c.txt": "" }) },
+        dryRun: true,
+        concurrency: 2,
+      }),
+    Error,
+    "b failed",
+  );
+});
+
+Deno.test("assertIdempotent passes when a second run changes nothing", async () => {
+  const { changes } = await assertIdempotent({
+    input: { "a.ts": `import { foo } from "./old.ts";\n` },
+    targets: [rewriteImports({
+      "./old.ts": { foo: { moduleSpecifier: "./new.ts" } },
+    })],
+  });
+  assertEquals(changes.length, 1);
+});
+
+Deno.test("assertIdempotent fails with the diff of the second run", async () => {
+  await assertRejects(
+    () =>
+      assertIdempotent({
+        input: { "VERSION": "1\n" },
+        targets: [{
+          include: ["VERSION"],
+          apply: ({ path, content }) => ({
+            path,
+            content: `${Number(content) + 1}\n`,
+          }),
+        }],
+      }),
+    CodeModIdempotencyError,
+    "-2\n+3",
+  );
+});
+
+Deno.test("verifyIdempotency neither reports nor looks up versions again", async () => {
+  const events: CodeModEvent[] = [];
+  const lookups: string[] = [];
+  const upgrades: string[] = [];
+  const { changes } = await codeMod({
+    targets: [upgradeDeps(/foo/, false, {
+      versionsOf: (pkg) => {
+        lookups.push(pkg);
+        return Promise.resolve(["2.0.0", "1.0.0"]);
+      },
+      onUpgrade: ({ registry, to }) => upgrades.push(`${registry} ${to}`),
+    })],
+    context: {
+      fs: inMemoryFS({
+        "deno.json": `{ "imports": { "foo": "npm:foo@1.0.0" } }`,
+      }),
+      formatters: {},
+      reporter: {
+        report: (event) => events.push(event),
+        confirm: () => true,
+        review: () => "y",
+      },
+    },
+    dryRun: true,
+    verifyIdempotency: true,
+  });
+  assertEquals(changes.length, 1);
+  assertEquals(lookups, ["foo"]);
+  assertEquals(upgrades, ["Npm 2.0.0"]);
+  assertEquals(
+    events.filter(({ type }) => type === "dependency-upgraded").length,
+    1,
+  );
+});
@@ -1,22 +1,41 @@
+import { join } from "@std/path";
+import type { CodeModContext } from "./codemod.ts";
+import { parseJSONC } from "./jsonc.ts";
+
 export interface DenoJSON {
   name?: string;
   version?: string;
-  exports?: Record<string, string>;
+  exports?: string | Record<string, string>;
   publish: Publish;
   tasks?: Record<string, string>;
   githooks?: Record<string, string>;
   fmt?: Fmt;
-  scopes?: Record<string, string>;
+  scopes?: Record<string, Record<string, string>>;
   imports?: Record<string, string>;
+  importMap?: string;
+  workspace?: string[];
   compilerOptions?: CompilerOptions;
+  exclude?: string[];
 }
 
 export interface Publish {
   exclude: string[];
 }
 
-export interface Fmt {
-  files: Files;
+export interface FmtOptions {
+  useTabs?: boolean;
+  lineWidth?: number;
+  indentWidth?: number;
+  singleQuote?: boolean;
+  proseWrap?: "always" | "never" | "preserve";
+  semiColons?: boolean;
+}
+
+export interface Fmt extends FmtOptions {
+  files?: Files;
+  exclude?: string[];
+  // the options used to be nested before deno 1.37.
+  options?: FmtOptions;
 }
 
 export interface Files {
@@ -26,6 +45,26 @@ export interface Files {
 export interface CompilerOptions {
   jsx: string;
   jsxImportSource: string;
+  [key: string]: unknown;
 }
 
 export { jsrLatest } from "./utils.ts";
+
+/**
+ * Reads the deno.json (or deno.jsonc) file of a directory.
+ * @param fs the filesystem to read from
+ * @param dir the directory containing the deno.json file
+ * @returns the path and content of the deno.json file, if any
+ */
+export const readDenoJSON = async (
+  fs: Pick<CodeModContext["fs"], "exists" | "readTextFile">,
+  dir: string,
+): Promise<{ path: string; content: DenoJSON } | undefined> => {
+  for (const fileName of ["deno.json", "deno.jsonc"]) {
+    const path = join(dir, fileName);
+    if (await fs.exists(path)) {
+      return { path, content: parseJSONC(await fs.readTextFile(path), path) };
+    }
+  }
+  return undefined;
+};
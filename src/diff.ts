@@ -0,0 +1,118 @@
+import { relative, SEPARATOR } from "@std/path";
+import * as diff from "npm:diff@8.0.4";
+import type { FileMod } from "./codemod.ts";
+
+/**
+ * Returns a path relative to the cwd using forward slashes, as git expects.
+ * @param {string} cwd - The current working directory.
+ * @param {string} path - The file path.
+ * @returns {string} The relative path.
+ */
+const gitPath = (cwd: string, path: string): string =>
+  relative(cwd, path).replaceAll(SEPARATOR, "/");
+
+/**
+ * Formats the hunks between two versions of a file.
+ * @param {string} before - The previous content, empty for created files.
+ * @param {string} after - The next content, empty for deleted files.
+ * @returns {string[]} The hunk lines.
+ */
+const hunks = (before: string, after: string): string[] => {
+  const { hunks } = diff.structuredPatch("", "", before, after, "", "", {
+    context: 3,
+  });
+  return hunks.flatMap((hunk: diff.StructuredPatchHunk) => {
+    // empty ranges start one line before, e.g. @@ -0,0 +1,2 @@ for a created file.
+    const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+    return [
+      `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`,
+      ...hunk.lines,
+    ];
+  });
+};
+
+/**
+ * Formats a file modification as a git-style unified diff section.
+ * @param {FileMod} patch - The file modification.
+ * @param {string} cwd - The current working directory, paths are relative to it.
+ * @returns {string | undefined} The diff section, or undefined if the modification is a no-op.
+ */
+const section = (patch: FileMod, cwd: string): string | undefined => {
+  if ("deleted" in patch.to) {
+    if (!("from" in patch)) {
+      return undefined;
+    }
+    const path = gitPath(cwd, patch.from.path);
+    return [
+      `diff --git a/${path} b/${path}`,
+      "deleted file mode 100644",
+      `--- a/${path}`,
+      "+++ /dev/null",
+      ...hunks(patch.from.content, ""),
+    ].join("\n");
+  }
+
+  const to = gitPath(cwd, patch.to.path);
+  if (!("from" in patch)) {
+    return [
+      `diff --git a/${to} b/${to}`,
+      "new file mode 100644",
+      "--- /dev/null",
+      `+++ b/${to}`,
+      ...hunks("", patch.to.content),
+    ].join("\n");
+  }
+
+  const from = gitPath(cwd, patch.from.path);
+  const changed = patch.from.content !== patch.to.content;
+  if (from === to && !changed) {
+    return undefined;
+  }
+  return [
+    `diff --git a/${from} b/${to}`,
+    ...from !== to ? [`rename from ${from}`, `rename to ${to}`] : [],
+    ...changed
+      ? [
+        `--- a/${from}`,
+        `+++ b/${to}`,
+        ...hunks(patch.from.content, patch.to.content),
+      ]
+      : [],
+  ].join("\n");
+};
+
+/**
+ * Formats file modifications as a unified diff that can be applied with `git apply`.
+ * @param {FileMod[]} patches - The file modifications.
+ * @param {string} cwd - The current working directory, paths are relative to it.
+ * @returns {string} The unified diff, empty if there are no changes.
+ */
+export const unifiedDiff = (patches: FileMod[], cwd: string): string => {
+  const sections = patches
+    .map((patch) => section(patch, cwd))
+    .filter((section): section is string => section !== undefined);
+  return sections.length === 0 ? "" : `${sections.join("\n")}\n`;
+};
+
+/**
+ * Counts the lines added and removed between two versions of a file.
+ * @param {string} before - The previous content, empty for created files.
+ * @param {string} after - The next content, empty for deleted files.
+ * @returns {{ added: number; removed: number }} The line counts.
+ */
+export const lineCounts = (
+  before: string,
+  after: string,
+): { added: number; removed: number } => {
+  let added = 0;
+  let removed = 0;
+  for (const change of diff.diffLines(before, after)) {
+    if (change.added) {
+      added += change.count ?? 0;
+    } else if (change.removed) {
+      removed += change.count ?? 0;
+    }
+  }
+  return { added, removed };
+};
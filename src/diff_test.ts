@@ -0,0 +1,151 @@
+import { assertEquals } from "@std/assert";
+import { dirname, join } from "@std/path";
+import type { FileMod } from "./codemod.ts";
+import { unifiedDiff } from "./diff.ts";
+
+/**
+ * Runs git in a directory and fails with its output if it exits with an error.
+ * @param {string} cwd - The directory.
+ * @param {string[]} args - The git arguments.
+ */
+const git = async (cwd: string, ...args: string[]) => {
+  const { success, stderr } = await new Deno.Command("git", {
+    args,
+    cwd,
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+  if (!success) {
+    throw new Error(
+      `git ${args.join(" ")} failed: ${new TextDecoder().decode(stderr)}`,
+    );
+  }
+};
+
+/**
+ * Writes files to a directory.
+ * @param {string} dir - The directory.
+ * @param {Record<string, string>} files - The files keyed by relative path.
+ */
+const writeFiles = async (dir: string, files: Record<string, string>) => {
+  for (const [path, content] of Object.entries(files)) {
+    await Deno.mkdir(dirname(join(dir, path)), { recursive: true });
+    await Deno.writeTextFile(join(dir, path), content);
+  }
+};
+
+const cases: {
+  name: string;
+  before: Record<string, string>;
+  after: Record<string, string>;
+  patches: (cwd: string) => FileMod[];
+}[] = [
+  {
+    name: "creates files",
+    before: {},
+    after: { "a.txt": "a\nb\n", "b.txt": "no newline" },
+    patches: (cwd) => [
+      { to: { path: join(cwd, "a.txt"), content: "a\nb\n" } },
+      { to: { path: join(cwd, "b.txt"), content: "no newline" } },
+    ],
+  },
+  {
+    name: "deletes files",
+    before: { "d.txt": "a\nb\n", "e.txt": "no newline" },
+    after: {},
+    patches: (cwd) => [
+      {
+        from: { path: join(cwd, "d.txt"), content: "a\nb\n" },
+        to: { deleted: true },
+      },
+      {
+        from: { path: join(cwd, "e.txt"), content: "no newline" },
+        to: { deleted: true },
+      },
+    ],
+  },
+  {
+    name: "modifies files",
+    before: { "m.txt": "1\n2\n3\n", "n.txt": "x\n" },
+    after: { "m.txt": "1\ntwo\n3\n", "n.txt": "x" },
+    patches: (cwd) => [
+      {
+        from: { path: join(cwd, "m.txt"), content: "1\n2\n3\n" },
+        to: { path: join(cwd, "m.txt"), content: "1\ntwo\n3\n" },
+      },
+      {
+        from: { path: join(cwd, "n.txt"), content: "x\n" },
+        to: { path: join(cwd, "n.txt"), content: "x" },
+      },
+    ],
+  },
+  {
+    name: "renames files",
+    before: { "old.txt": "a\n", "src/old.ts": "export {};\n" },
+    after: { "new.txt": "a\n", "lib/new.ts": "export const a = 1;\n" },
+    patches: (cwd) => [
+      {
+        from: { path: join(cwd, "old.txt"), content: "a\n" },
+        to: { path: join(cwd, "new.txt"), content: "a\n" },
+      },
+      {
+        from: { path: join(cwd, "src/old.ts"), content: "export {};\n" },
+        to: {
+          path: join(cwd, "lib/new.ts"),
+          content: "export const a = 1;\n",
+        },
+      },
+    ],
+  },
+];
+
+for (const { name, before, after, patches } of cases) {
+  Deno.test(`unifiedDiff ${name} with a patch git can apply`, async () => {
+    const cwd = await Deno.makeTempDir();
+    try {
+      await git(cwd, "init", "--quiet");
+      await writeFiles(cwd, before);
+      await Deno.writeTextFile(
+        join(cwd, "changes.patch"),
+        unifiedDiff(patches(cwd), cwd),
+      );
+      await git(cwd, "apply", "--check", "changes.patch");
+      await git(cwd, "apply", "changes.patch");
+      await Deno.remove(join(cwd, "changes.patch"));
+
+      const files: Record<string, string> = {};
+      for (const path of Object.keys({ ...before, ...after })) {
+        try {
+          files[path] = await Deno.readTextFile(join(cwd, path));
+        } catch (err) {
+          if (!(err instanceof Deno.errors.NotFound)) {
+            throw err;
+          }
+        }
+      }
+      assertEquals(files, after);
+    } finally {
+      await Deno.remove(cwd, { recursive: true });
+    }
+  });
+}
+
+Deno.test("unifiedDiff only marks content without a final newline", () => {
+  const cwd = "/project";
+  assertEquals(
+    unifiedDiff([{
+      from: { path: "/project/d.txt", content: "a\nb\n" },
+      to: { deleted: true },
+    }], cwd),
+    [
+      "diff --git a/d.txt b/d.txt",
+      "deleted file mode 100644",
+      "--- a/d.txt",
+      "+++ /dev/null",
+      "@@ -1,2 +0,0 @@",
+      "-a",
+      "-b",
+      "",
+    ].join("\n"),
+  );
+});
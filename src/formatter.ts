@@ -1,28 +1,253 @@
+import { extname, join } from "@std/path";
+import type { TextFile } from "./codemod.ts";
+import { type FmtOptions, readDenoJSON } from "./denoJSON.ts";
+import { DEFAULT_FS } from "./fs.ts";
+
 /**
- * format content based on deno fmt
- * @param content the string content
- * @returns the formatted content
+ * Formats the content of files, e.g. through deno fmt, prettier or dprint.
+ */
+export interface Formatter {
+  // formats the content of a file, the path tells its language and which config applies.
+  format: (content: string, path: string) => Promise<string>;
+  // formats many files in a single run, the results are in the same order, an Error for each file that failed.
+  formatAll?: (files: TextFile[]) => Promise<(string | Error)[]>;
+}
+
+/**
+ * Thrown when a formatter fails to format a file.
+ */
+export class FormatterError extends Error {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(message);
+    this.name = "FormatterError";
+    this.path = path;
+  }
+}
+
+/**
+ * The `--ext` deno fmt expects for each file extension it can format.
+ */
+const DENO_FMT_EXTENSIONS: Record<string, string> = {
+  ".ts": "ts",
+  ".tsx": "tsx",
+  ".mts": "ts",
+  ".cts": "ts",
+  ".js": "js",
+  ".jsx": "jsx",
+  ".mjs": "js",
+  ".cjs": "js",
+  ".json": "json",
+  ".jsonc": "jsonc",
+  ".md": "md",
+  ".markdown": "md",
+};
+
+/**
+ * The extensions formatted by default, the files the TypeScript patchers reprint.
+ * JSON and Markdown patchers edit only what changes, reformatting would undo that.
+ */
+const REPRINTED_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+/**
+ * Represents options for the command line formatters.
+ */
+export interface FormatterOptions {
+  // the directory the formatter runs in, its config (deno.json, .prettierrc, dprint.json) is looked up from there.
+  cwd?: string;
+}
+
+/**
+ * Runs a formatter command that reads the content from stdin and writes it to stdout.
+ * @param {string} command - The formatter executable.
+ * @param {string[]} args - The formatter arguments.
+ * @param {string} content - The content to format.
+ * @param {string} path - The file path, used in errors.
+ * @param {string} [cwd] - The directory the formatter runs in.
+ * @returns {Promise<string>} The formatted content.
+ * @throws {FormatterError} - Throws if the formatter cannot run or fails.
  */
-export async function format(content: string): Promise<string> {
-  const fmt = new Deno.Command(Deno.execPath(), {
-    args: ["fmt", "-"],
-    stdin: "piped",
-    stdout: "piped",
-    stderr: "null",
-  });
+const pipe = async (
+  command: string,
+  args: string[],
+  content: string,
+  path: string,
+  cwd?: string,
+): Promise<string> => {
+  let output: Deno.CommandOutput;
+  try {
+    const proc = new Deno.Command(command, {
+      args,
+      cwd,
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+    const writer = proc.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(content));
+    await writer.close();
+    output = await proc.output();
+  } catch (err) {
+    throw new FormatterError(
+      path,
+      `could not run ${command} to format ${path}: ${(err as Error).message}`,
+    );
+  }
+  if (!output.success) {
+    throw new FormatterError(
+      path,
+      `${command} failed to format ${path}: ${
+        new TextDecoder().decode(output.stderr).trim()
+      }`,
+    );
+  }
+  return new TextDecoder().decode(output.stdout);
+};
 
-  const proc = fmt.spawn();
+/**
+ * Converts the `fmt` options of a deno.json to deno fmt flags.
+ * @param {FmtOptions} options - The fmt options.
+ * @returns {string[]} The flags.
+ */
+const fmtFlags = (
+  {
+    useTabs,
+    lineWidth,
+    indentWidth,
+    singleQuote,
+    proseWrap,
+    semiColons,
+  }: FmtOptions,
+): string[] => [
+  ...useTabs !== undefined ? [`--use-tabs=${useTabs}`] : [],
+  ...lineWidth !== undefined ? [`--line-width=${lineWidth}`] : [],
+  ...indentWidth !== undefined ? [`--indent-width=${indentWidth}`] : [],
+  ...singleQuote !== undefined ? [`--single-quote=${singleQuote}`] : [],
+  ...proseWrap !== undefined ? [`--prose-wrap=${proseWrap}`] : [],
+  ...semiColons === false ? ["--no-semicolons"] : [],
+];
+
+/**
+ * Reads the deno fmt flags matching the `fmt` config of the deno.json in a directory.
+ * @param {string} [cwd] - The directory, defaults to the process cwd.
+ * @returns {Promise<string[]>} The flags.
+ */
+const configFlags = async (cwd: string = Deno.cwd()): Promise<string[]> => {
+  const fmt = (await readDenoJSON(DEFAULT_FS, cwd))?.content.fmt;
+  const flags = fmt ? fmtFlags(fmt) : [];
+  // like deno fmt, the nested options are ignored when there are flat ones.
+  return flags.length > 0 || !fmt?.options ? flags : fmtFlags(fmt.options);
+};
+
+/**
+ * Creates a formatter that runs `deno fmt`, honouring the `fmt` config of the deno.json in its cwd.
+ * Many files are formatted by a single deno fmt run over a temporary directory.
+ * @param {FormatterOptions} [options={}] - The formatter options.
+ * @returns {Formatter} The formatter.
+ */
+export const denoFmt = ({ cwd }: FormatterOptions = {}): Formatter => {
+  const format = (content: string, path: string) =>
+    pipe(
+      Deno.execPath(),
+      ["fmt", `--ext=${DENO_FMT_EXTENSIONS[extname(path)] ?? "ts"}`, "-"],
+      content,
+      path,
+      cwd,
+    );
+  let flags: Promise<string[]> | undefined;
+  const formatAll = async (files: TextFile[]) => {
+    // the files are copied out of the project, so its config is passed as flags.
+    flags ??= configFlags(cwd);
+    const dir = await Deno.makeTempDir({ prefix: "codemod-fmt-" });
+    try {
+      // the temporary extension selects the language, like --ext does for stdin.
+      const paths = files.map(({ path }, index) =>
+        join(dir, `${index}.${DENO_FMT_EXTENSIONS[extname(path)] ?? "ts"}`)
+      );
+      for (const [index, { content }] of files.entries()) {
+        await Deno.writeTextFile(paths[index], content);
+      }
+      const { success } = await new Deno.Command(Deno.execPath(), {
+        args: ["fmt", "--no-config", ...await flags, dir],
+        cwd: dir,
+        stdout: "null",
+        stderr: "null",
+      }).output();
+      const results: (string | Error)[] = [];
+      for (const [index, { content, path }] of files.entries()) {
+        // files are formatted one by one after a failure, so that each one gets its own error.
+        results.push(
+          success
+            ? await Deno.readTextFile(paths[index])
+            : await format(content, path).catch((err: Error) => err),
+        );
+      }
+      return results;
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  };
+  return { format, formatAll };
+};
 
-  const raw = new ReadableStream({
-    start(controller) {
-      controller.enqueue(new TextEncoder().encode(content));
-      controller.close();
-    },
-  });
+/**
+ * Creates a formatter that runs `prettier` through npx.
+ * @param {FormatterOptions} [options={}] - The formatter options.
+ * @returns {Formatter} The formatter.
+ */
+export const prettier = ({ cwd }: FormatterOptions = {}): Formatter => ({
+  format: (content, path) =>
+    pipe("npx", ["prettier", "--stdin-filepath", path], content, path, cwd),
+});
 
-  await raw.pipeTo(proc.stdin);
-  const out = await proc.output();
-  await proc.status;
+/**
+ * Creates a formatter that runs `dprint`.
+ * @param {FormatterOptions} [options={}] - The formatter options.
+ * @returns {Formatter} The formatter.
+ */
+export const dprint = ({ cwd }: FormatterOptions = {}): Formatter => ({
+  format: (content, path) =>
+    pipe("dprint", ["fmt", "--stdin", path], content, path, cwd),
+});
 
-  return new TextDecoder().decode(out.stdout);
+/**
+ * A formatter that leaves the content untouched.
+ */
+export const noFormatter: Formatter = {
+  format: (content) => Promise.resolve(content),
+};
+
+/**
+ * Maps the TypeScript and JavaScript extensions to a deno fmt formatter.
+ * @param {FormatterOptions} [options={}] - The formatter options.
+ * @returns {Record<string, Formatter>} The formatters keyed by extension, e.g. `.ts`.
+ */
+export const denoFmtFormatters = (
+  options: FormatterOptions = {},
+): Record<string, Formatter> => {
+  const formatter = denoFmt(options);
+  return Object.fromEntries(
+    REPRINTED_EXTENSIONS.map((ext) => [ext, formatter]),
+  );
+};
+
+/**
+ * format content based on deno fmt
+ * @param content the string content
+ * @param path the file path, its extension selects the language
+ * @returns the formatted content
+ * @throws {FormatterError} if deno fmt fails
+ */
+export function format(content: string, path = "file.ts"): Promise<string> {
+  return denoFmt().format(content, path);
 }
@@ -0,0 +1,98 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import {
+  denoFmt,
+  denoFmtFormatters,
+  dprint,
+  FormatterError,
+  prettier,
+} from "./formatter.ts";
+
+/**
+ * Runs a function with a directory of fake executables first in PATH.
+ * @param {Record<string, string>} scripts - The shell scripts, keyed by executable name.
+ * @param {() => Promise<void>} fn - The function to run.
+ * @param {boolean} [only=false] - Whether PATH holds only the fake executables.
+ */
+const withPath = async (
+  scripts: Record<string, string>,
+  fn: () => Promise<void>,
+  only = false,
+) => {
+  const dir = await Deno.makeTempDir();
+  const path = Deno.env.get("PATH");
+  try {
+    for (const [name, script] of Object.entries(scripts)) {
+      await Deno.writeTextFile(join(dir, name), `#!/bin/sh\n${script}\n`, {
+        mode: 0o755,
+      });
+    }
+    Deno.env.set("PATH", only || !path ? dir : `${dir}:${path}`);
+    await fn();
+  } finally {
+    path === undefined ? Deno.env.delete("PATH") : Deno.env.set("PATH", path);
+    await Deno.remove(dir, { recursive: true });
+  }
+};
+
+Deno.test("denoFmtFormatters only formats the files the patchers reprint", () => {
+  const formatters = denoFmtFormatters();
+  assert(formatters[".ts"] && formatters[".tsx"] && formatters[".js"]);
+  assertEquals([".json", ".jsonc", ".md"].filter((ext) => formatters[ext]), []);
+});
+
+Deno.test("denoFmt formats many files in one run, with an error for each file that fails", async () => {
+  const cwd = await Deno.makeTempDir();
+  try {
+    const { formatAll } = denoFmt({ cwd });
+    const files = [
+      { path: "/a.ts", content: "const a  =  1" },
+      { path: "/b.json", content: `{"a":1}` },
+    ];
+    const formatted = ["const a = 1;\n", `{ "a": 1 }\n`];
+    assertEquals(await formatAll!(files), formatted);
+
+    const results = await formatAll!([
+      ...files,
+      { path: "/c.ts", content: "const = ;" },
+    ]);
+    assertEquals(results.slice(0, 2), formatted);
+    assert(results[2] instanceof FormatterError);
+    assertEquals(results[2].path, "/c.ts");
+  } finally {
+    await Deno.remove(cwd, { recursive: true });
+  }
+});
+
+Deno.test("prettier pipes the content through npx", async () => {
+  await withPath({ npx: `[ "$1" = prettier ] && tr a-z A-Z` }, async () => {
+    assertEquals(
+      await prettier().format("const a = 1;\n", "/a.ts"),
+      "CONST A = 1;\n",
+    );
+  });
+});
+
+Deno.test("dprint throws a FormatterError with its output when it fails", async () => {
+  await withPath(
+    { dprint: `cat >/dev/null; echo "syntax error" >&2; exit 1` },
+    async () => {
+      const error = await assertRejects(
+        () => dprint().format("const = ;", "/a.ts"),
+        FormatterError,
+        "dprint failed to format /a.ts: syntax error",
+      );
+      assertEquals(error.path, "/a.ts");
+    },
+  );
+});
+
+Deno.test("dprint throws a FormatterError when it is not installed", async () => {
+  await withPath({}, async () => {
+    await assertRejects(
+      () => dprint().format("const a = 1;\n", "/a.ts"),
+      FormatterError,
+      "could not run dprint to format /a.ts",
+    );
+  }, true);
+});
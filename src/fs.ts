@@ -0,0 +1,42 @@
+import { ensureFile, exists, walk } from "@std/fs";
+import { join } from "@std/path";
+import type { CodeModContext } from "./codemod.ts";
+
+/**
+ * The filesystem used when the context does not provide one.
+ */
+export const DEFAULT_FS: CodeModContext["fs"] = {
+  cwd: () => Deno.cwd(),
+  remove: Deno.remove,
+  ensureFile: ensureFile,
+  writeTextFile: Deno.writeTextFile,
+  readTextFile: Deno.readTextFile,
+  walk: walk,
+  exists: exists,
+};
+
+/**
+ * Writes a text output, e.g. a unified diff or a report, to a file or stream.
+ * @param {string} text - The text to write.
+ * @param {string | WritableStream<Uint8Array>} output - A file path relative to the cwd, or a stream.
+ * @param {CodeModContext["fs"]} fs - The filesystem used to write files.
+ * @returns {Promise<void>} A promise that resolves when the text is written.
+ */
+export const writeOutput = async (
+  text: string,
+  output: string | WritableStream<Uint8Array>,
+  fs: CodeModContext["fs"],
+): Promise<void> => {
+  if (typeof output === "string") {
+    const path = join(fs.cwd(), output);
+    await fs.ensureFile(path);
+    await fs.writeTextFile(path, text);
+    return;
+  }
+  const writer = output.getWriter();
+  try {
+    await writer.write(new TextEncoder().encode(text));
+  } finally {
+    writer.releaseLock();
+  }
+};
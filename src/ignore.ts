@@ -0,0 +1,310 @@
+import type { WalkEntry, WalkOptions } from "@std/fs/walk";
+import { basename, globToRegExp, join, relative, SEPARATOR } from "@std/path";
+import type { CodeModContext, CodeModTarget } from "./codemod.ts";
+import { readDenoJSON } from "./denoJSON.ts";
+
+/**
+ * Directories that are never walked: git metadata, dependencies and the codemod state.
+ */
+export const ALWAYS_SKIPPED: RegExp[] = [
+  /(^|[\\/])(\.git|node_modules|\.codemod)([\\/]|$)/,
+];
+
+/**
+ * Represents a single ignore pattern, later patterns override earlier ones.
+ */
+interface IgnoreRule {
+  negated: boolean;
+  // whether the pattern only matches directories, i.e. it ends with a slash.
+  directory: boolean;
+  regex: RegExp;
+}
+
+/**
+ * The ignore rules of a codemod run.
+ */
+interface Ignore {
+  // the rules of the .gitignore files read so far, parent directories first.
+  gitignore: IgnoreRule[];
+  // the deno.json exclude rules, applied after the .gitignore rules.
+  exclude: IgnoreRule[];
+  // the directories, relative to the cwd, whose .gitignore was read.
+  read: Set<string>;
+}
+
+const IGNORES = new WeakMap<CodeModContext, Promise<Ignore>>();
+
+/**
+ * Converts a .gitignore (or deno.json exclude) pattern to a rule matching paths relative to the cwd.
+ * @param {string} line - The pattern.
+ * @param {boolean} anchored - Whether the pattern is always relative to its base, as deno.json excludes are.
+ * @param {string} [base=""] - The directory of the .gitignore file, relative to the cwd.
+ * @returns {IgnoreRule} The rule.
+ */
+const ignoreRule = (line: string, anchored: boolean, base = ""): IgnoreRule => {
+  const negated = line.startsWith("!");
+  let pattern = (negated ? line.slice(1) : line).replace(/^\.\//, "");
+  const directory = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+  // a slash at the beginning or in the middle anchors .gitignore patterns as well.
+  const glob = anchored || pattern.includes("/")
+    ? pattern.replace(/^\//, "")
+    : `**/${pattern}`;
+  return {
+    negated,
+    directory,
+    regex: globToRegExp(base ? `${base}/${glob}` : glob),
+  };
+};
+
+/**
+ * Parses the rules of a .gitignore file.
+ * @param {string} content - The .gitignore content.
+ * @param {string} base - The directory of the .gitignore file, relative to the cwd.
+ * @returns {IgnoreRule[]} The rules, in order.
+ */
+const gitignoreRules = (content: string, base: string): IgnoreRule[] =>
+  content.split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => ignoreRule(line, false, base));
+
+/**
+ * Reads the .gitignore of a directory, once per run.
+ * @param {Ignore} ignore - The ignore rules of the run.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @param {string} dir - The directory, relative to the cwd.
+ * @returns {Promise<void>} A promise that resolves when the rules of the directory are added.
+ */
+const readGitignore = async (
+  ignore: Ignore,
+  ctx: CodeModContext,
+  dir: string,
+): Promise<void> => {
+  if (ignore.read.has(dir)) {
+    return;
+  }
+  ignore.read.add(dir);
+  const gitignore = join(ctx.fs.cwd(), dir, ".gitignore");
+  if (await ctx.fs.exists(gitignore)) {
+    ignore.gitignore.push(
+      ...gitignoreRules(await ctx.fs.readTextFile(gitignore), dir),
+    );
+  }
+};
+
+/**
+ * Loads the root .gitignore and the deno.json exclude rules of the cwd.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @returns {Promise<Ignore>} The ignore rules, nested .gitignore files are read while walking.
+ */
+const loadIgnore = async (ctx: CodeModContext): Promise<Ignore> => {
+  const denoJSON = (await readDenoJSON(ctx.fs, ctx.fs.cwd()))?.content;
+  const ignore: Ignore = {
+    gitignore: [],
+    exclude: [
+      ...denoJSON?.exclude ?? [],
+      ...denoJSON?.fmt?.exclude ?? [],
+      ...denoJSON?.fmt?.files?.exclude ?? [],
+    ].map((pattern) => ignoreRule(pattern, true)),
+    read: new Set(),
+  };
+  await readGitignore(ignore, ctx, "");
+  return ignore;
+};
+
+/**
+ * Returns the ignore rules of a codemod run, loading them on first use.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {Promise<Ignore>} The ignore rules.
+ */
+const ignoreOf = (ctx: CodeModContext): Promise<Ignore> => {
+  let ignore = IGNORES.get(ctx);
+  if (!ignore) {
+    ignore = loadIgnore(ctx);
+    IGNORES.set(ctx, ignore);
+  }
+  return ignore;
+};
+
+/**
+ * Checks if a path is ignored by its own rules, its parent directories are not checked.
+ * @param {Ignore} ignore - The ignore rules.
+ * @param {string} path - The path, relative to the cwd.
+ * @param {boolean} directory - Whether the path is a directory.
+ * @returns {boolean} True if the last rule matching the path ignores it.
+ */
+const isIgnored = (
+  { gitignore, exclude }: Ignore,
+  path: string,
+  directory: boolean,
+): boolean => {
+  let ignored = false;
+  for (const rule of [...gitignore, ...exclude]) {
+    if ((directory || !rule.directory) && rule.regex.test(path)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+};
+
+/**
+ * Checks if a file that was not walked is ignored, itself or through one of its directories.
+ * @param {Ignore} ignore - The ignore rules.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @param {string} path - The file path, relative to the cwd.
+ * @returns {Promise<boolean>} True if the file is ignored.
+ */
+const isFileIgnored = async (
+  ignore: Ignore,
+  ctx: CodeModContext,
+  path: string,
+): Promise<boolean> => {
+  const segments = path.split("/");
+  for (let i = 1; i < segments.length; i++) {
+    const dir = segments.slice(0, i).join("/");
+    await readGitignore(ignore, ctx, segments.slice(0, i - 1).join("/"));
+    // like git, a file in an ignored directory cannot be included again.
+    if (isIgnored(ignore, dir, true)) {
+      return true;
+    }
+  }
+  await readGitignore(ignore, ctx, segments.slice(0, -1).join("/"));
+  return isIgnored(ignore, path, false);
+};
+
+/**
+ * Creates a matcher for a list of glob patterns relative to the cwd.
+ * @param {string[]} globs - The glob patterns, e.g. `**\/*.ts`.
+ * @returns {(path: string) => boolean} Checks if a path relative to the cwd matches any pattern.
+ */
+export const globMatcher = (globs: string[]): (path: string) => boolean => {
+  const regexes = globs.map((glob) => globToRegExp(glob.replace(/^\.\//, "")));
+  return (path) => regexes.some((regex) => regex.test(path));
+};
+
+/**
+ * Checks if a path passes the `match`, `skip` and `exts` filters of walk options, like `@std/fs/walk`.
+ * @param {string} path - The absolute path.
+ * @param {WalkOptions} options - The walk options.
+ * @returns {boolean} True if the path passes the filters.
+ */
+const walkable = (path: string, { match, skip, exts }: WalkOptions): boolean =>
+  (!match || match.some((regex) => regex.test(path))) &&
+  !skip?.some((regex) => regex.test(path)) &&
+  (!exts || exts.some((ext) => path.endsWith(ext)));
+
+/**
+ * Walks the files of a directory one level at a time, so that ignored directories are never entered.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @param {string} dir - The absolute path of the directory.
+ * @param {WalkOptions} options - The walk options.
+ * @param {number} depth - The remaining depth of the walk.
+ * @param {Ignore} [ignore] - The ignore rules, nothing is ignored when omitted.
+ * @returns {AsyncIterableIterator<WalkEntry>} The files, in walk order.
+ */
+async function* walkFiles(
+  ctx: CodeModContext,
+  dir: string,
+  options: WalkOptions,
+  depth: number,
+  ignore?: Ignore,
+): AsyncIterableIterator<WalkEntry> {
+  const cwd = ctx.fs.cwd();
+  const path = (absolute: string) =>
+    relative(cwd, absolute).replaceAll(SEPARATOR, "/");
+  if (depth < 1) {
+    return;
+  }
+  if (ignore) {
+    await readGitignore(ignore, ctx, path(dir));
+  }
+  // match and exts only filter files, skip also prunes directories.
+  const entries = ctx.fs.walk(dir, {
+    ...options,
+    maxDepth: 1,
+    includeFiles: true,
+    includeDirs: true,
+    match: undefined,
+    exts: undefined,
+  });
+  for await (const entry of entries) {
+    if (entry.path === dir) {
+      continue;
+    }
+    if (entry.isDirectory) {
+      if (!ignore || !isIgnored(ignore, path(entry.path), true)) {
+        yield* walkFiles(ctx, entry.path, options, depth - 1, ignore);
+      }
+    } else if (
+      entry.isFile && walkable(entry.path, options) &&
+      (!ignore || !isIgnored(ignore, path(entry.path), false))
+    ) {
+      yield entry;
+    }
+  }
+}
+
+/**
+ * Walks the files of a target: files matching its walk options and include globs,
+ * not matching its exclude globs and, unless `includeIgnored` is set, not ignored by
+ * a .gitignore or the deno.json excludes. Ignored directories are not walked.
+ * @template TContext The type of the CodeModContext.
+ * @param {CodeModTarget<TContext>} target - The target.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @param {string[]} [created=[]] - Absolute paths of files planned by previous targets, walked after the existing files.
+ * @param {string[]} [only] - Glob patterns relative to the cwd that every selected file must also match.
+ * @returns {AsyncIterableIterator<WalkEntry>} The files of the target.
+ */
+export async function* targetFiles<TContext extends CodeModContext>(
+  target: CodeModTarget<TContext>,
+  ctx: CodeModContext,
+  created: string[] = [],
+  only?: string[],
+): AsyncIterableIterator<WalkEntry> {
+  const cwd = ctx.fs.cwd();
+  const included = target.include && globMatcher(target.include);
+  const restricted = only && globMatcher(only);
+  const excluded = target.exclude && globMatcher(target.exclude);
+  const ignore = target.includeIgnored ? undefined : await ignoreOf(ctx);
+  const options: WalkOptions = {
+    ...target.options,
+    skip: [...ALWAYS_SKIPPED, ...target.options?.skip ?? []],
+  };
+  const relativePath = (absolute: string) =>
+    relative(cwd, absolute).replaceAll(SEPARATOR, "/");
+  const selected = (absolute: string) => {
+    const path = relativePath(absolute);
+    return (!included || included(path)) && (!restricted || restricted(path)) &&
+      !excluded?.(path);
+  };
+  const walked = new Set<string>();
+  const files = walkFiles(
+    ctx,
+    cwd,
+    options,
+    options.maxDepth ?? Infinity,
+    ignore,
+  );
+  for await (const entry of files) {
+    walked.add(entry.path);
+    if (selected(entry.path)) {
+      yield entry;
+    }
+  }
+  for (const path of [...created].sort()) {
+    if (
+      !walked.has(path) && path.startsWith(cwd) && selected(path) &&
+      walkable(path, options) &&
+      (!ignore || !(await isFileIgnored(ignore, ctx, relativePath(path))))
+    ) {
+      yield {
+        path,
+        name: basename(path),
+        isFile: true,
+        isDirectory: false,
+        isSymlink: false,
+      };
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { assertEquals } from "@std/assert";
+import type { CodeModContext, CodeModTarget } from "./codemod.ts";
+import { targetFiles } from "./ignore.ts";
+import { inMemoryFS } from "./memfs.ts";
+
+/**
+ * Lists the files a target walks in an in-memory filesystem.
+ * @param {Record<string, string>} files - The files, keyed by path relative to the cwd.
+ * @param {Omit<CodeModTarget, "apply">} [target={}] - The target options.
+ * @param {string[]} [created=[]] - Files planned by previous targets, relative to the cwd.
+ * @returns {Promise<{ paths: string[]; dirs: string[] }>} The walked files and the walked directories, relative to the cwd.
+ */
+const walked = async (
+  files: Record<string, string>,
+  target: Omit<CodeModTarget, "apply"> = {},
+  created: string[] = [],
+): Promise<{ paths: string[]; dirs: string[] }> => {
+  const fs = inMemoryFS(files);
+  const dirs: string[] = [];
+  const ctx: CodeModContext = {
+    fs: {
+      ...fs,
+      walk: (root, options) => {
+        dirs.push(root.toString().slice(1));
+        return fs.walk(root, options);
+      },
+    },
+  };
+  const paths: string[] = [];
+  const entries = targetFiles(
+    { ...target, apply: (file) => file },
+    ctx,
+    created.map((path) => `/${path}`),
+  );
+  for await (const { path } of entries) {
+    paths.push(path.slice(1));
+  }
+  return { paths, dirs };
+};
+
+Deno.test("targetFiles applies the root .gitignore with negated and anchored patterns", async () => {
+  const { paths, dirs } = await walked({
+    ".gitignore": "*.gen.ts\n!keep.gen.ts\n/build\nlogs/\n",
+    "a.gen.ts": "",
+    "a.ts": "",
+    "build/a.ts": "",
+    "keep.gen.ts": "",
+    "logs/a.ts": "",
+    "src/build/a.ts": "",
+    "src/logs/a.ts": "",
+    "src/logs.ts": "",
+  }, { include: ["**/*.ts"] });
+  assertEquals(paths, ["a.ts", "keep.gen.ts", "src/build/a.ts", "src/logs.ts"]);
+  // ignored directories are not walked.
+  assertEquals(dirs, ["", "src", "src/build"]);
+});
+
+Deno.test("targetFiles applies nested .gitignore files to their directory", async () => {
+  const { paths } = await walked(
+    {
+      ".gitignore": "*.log\n",
+      "a.ts": "",
+      "a.log": "",
+      "src/.gitignore": "/a.ts\n*.tmp\n!keep.log\n",
+      "src/a.ts": "",
+      "src/b.tmp": "",
+      "src/keep.log": "",
+      "src/lib/a.ts": "",
+      "lib/b.tmp": "",
+    },
+    { include: ["**/*.{ts,tmp,log}"] },
+    ["src/c.tmp", "src/c.ts"],
+  );
+  assertEquals(paths, [
+    "a.ts",
+    "lib/b.tmp",
+    "src/keep.log",
+    "src/lib/a.ts",
+    "src/c.ts",
+  ]);
+});
+
+Deno.test("targetFiles skips the deno.json exclude and fmt.exclude entries", async () => {
+  const { paths, dirs } = await walked({
+    "deno.json": JSON.stringify({
+      exclude: ["vendor/"],
+      fmt: { exclude: ["src/generated.ts"] },
+    }),
+    "a.ts": "",
+    "src/a.ts": "",
+    "src/generated.ts": "",
+    "src/vendor/a.ts": "",
+    "vendor/a.ts": "",
+  }, { include: ["**/*.ts"] });
+  assertEquals(paths, ["a.ts", "src/a.ts", "src/vendor/a.ts"]);
+  assertEquals(dirs, ["", "src", "src/vendor"]);
+});
+
+Deno.test("targetFiles never walks .git, node_modules and .codemod", async () => {
+  const files = {
+    ".codemod/journal.json": "",
+    ".git/config": "",
+    ".gitignore": "dist/\n",
+    "a.ts": "",
+    "dist/a.ts": "",
+    "node_modules/a/index.ts": "",
+  };
+  const { paths, dirs } = await walked(files);
+  assertEquals(paths, [".gitignore", "a.ts"]);
+  assertEquals(dirs, [""]);
+  // includeIgnored only walks the ignored files.
+  assertEquals((await walked(files, { includeIgnored: true })).paths, [
+    ".gitignore",
+    "a.ts",
+    "dist/a.ts",
+  ]);
+});
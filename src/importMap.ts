@@ -0,0 +1,423 @@
+import { dirname, isAbsolute, join, relative, SEPARATOR } from "@std/path";
+import { rangeIntersects, tryParseRange } from "@std/semver";
+import type { CodeModContext } from "./codemod.ts";
+import { type DenoJSON, readDenoJSON } from "./denoJSON.ts";
+import { parseJSONC } from "./jsonc.ts";
+import { lookup } from "./registry.ts";
+
+/**
+ * Represents the import map of a project, with local targets resolved to absolute paths.
+ */
+export interface ImportMap {
+  imports: Record<string, string>;
+  // scoped entries keyed by the absolute path (or URL) prefix of the referrers they apply to.
+  scopes: Record<string, Record<string, string>>;
+}
+
+const IMPORT_MAPS = new WeakMap<CodeModContext, Promise<ImportMap>>();
+
+/**
+ * Checks if a specifier is relative to the importing file.
+ * @param {string} specifier - The module specifier.
+ * @returns {boolean} True if the specifier is relative.
+ */
+export const isRelative = (specifier: string): boolean =>
+  specifier.startsWith("./") || specifier.startsWith("../");
+
+/**
+ * Returns the specifier to import a module from a file, using forward slashes.
+ * @param {string} from - The path of the importing file.
+ * @param {string} to - The path of the imported module.
+ * @returns {string} The relative specifier, always starting with ./ or ../.
+ */
+export const relativeSpecifier = (from: string, to: string): string => {
+  const path = relative(dirname(from), to).replaceAll(SEPARATOR, "/");
+  return isRelative(path) ? path : `./${path}`;
+};
+
+/**
+ * Checks if an import map target is a jsr: or npm: package, whose subpaths are mapped
+ * even when the entry has no trailing slash.
+ * @param {string} target - The import map target.
+ * @returns {boolean} True if the target is a package.
+ */
+const isPackage = (target: string): boolean =>
+  target.startsWith("jsr:") || target.startsWith("npm:");
+
+/**
+ * Resolves a relative path of an import map against the directory that declares it.
+ * @param {string} target - The path, left untouched if it is not relative.
+ * @param {string} dir - The directory of the file declaring the path.
+ * @returns {string} The absolute path, or the original target.
+ */
+const resolveLocal = (target: string, dir: string): string => {
+  if (!isRelative(target)) {
+    return target;
+  }
+  const resolved = join(dir, target);
+  // directory entries must keep their trailing slash.
+  return target.endsWith("/") && !resolved.endsWith("/")
+    ? `${resolved}/`
+    : resolved;
+};
+
+/**
+ * Resolves the targets of an import map relative to the directory that declares it.
+ * @param {Record<string, string>} imports - The import map entries.
+ * @param {string} dir - The directory of the file declaring the entries.
+ * @returns {Record<string, string>} The entries, with local targets as absolute paths.
+ */
+const resolveTargets = (
+  imports: Record<string, string>,
+  dir: string,
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(imports).map((
+      [specifier, target],
+    ) => [specifier, resolveLocal(target, dir)]),
+  );
+
+/**
+ * Resolves the scopes of an import map relative to the directory that declares it.
+ * @param {Record<string, Record<string, string>>} scopes - The import map scopes.
+ * @param {string} dir - The directory of the file declaring the scopes.
+ * @returns {Record<string, Record<string, string>>} The scopes, with local prefixes and targets as absolute paths.
+ */
+const resolveScopes = (
+  scopes: Record<string, Record<string, string>>,
+  dir: string,
+): Record<string, Record<string, string>> =>
+  Object.fromEntries(
+    Object.entries(scopes).map(([prefix, imports]) => [
+      resolveLocal(prefix, dir),
+      resolveTargets(imports, dir),
+    ]),
+  );
+
+/**
+ * Reads the import map of a deno.json, either inline or from its `importMap` file.
+ * @param {CodeModContext["fs"]} fs - The filesystem.
+ * @param {DenoJSON} denoJSON - The deno.json content.
+ * @param {string} dir - The directory of the deno.json.
+ * @returns {Promise<ImportMap>} The import map.
+ */
+const readImportMap = async (
+  fs: CodeModContext["fs"],
+  denoJSON: DenoJSON,
+  dir: string,
+): Promise<ImportMap> => {
+  if (denoJSON.importMap && !URL.canParse(denoJSON.importMap)) {
+    const path = join(dir, denoJSON.importMap);
+    const importMap = parseJSONC<Partial<ImportMap>>(
+      await fs.readTextFile(path),
+      path,
+    );
+    return {
+      imports: resolveTargets(importMap.imports ?? {}, dirname(path)),
+      scopes: resolveScopes(importMap.scopes ?? {}, dirname(path)),
+    };
+  }
+  return {
+    imports: resolveTargets(denoJSON.imports ?? {}, dir),
+    scopes: resolveScopes(denoJSON.scopes ?? {}, dir),
+  };
+};
+
+/**
+ * Maps the name of a workspace member and its exports to the exported files.
+ * @param {DenoJSON} denoJSON - The deno.json of the member.
+ * @param {string} dir - The directory of the member.
+ * @returns {Record<string, string>} The entries, also available through the jsr: scheme.
+ */
+const memberImports = (
+  { name, exports }: DenoJSON,
+  dir: string,
+): Record<string, string> => {
+  if (!name || !exports) {
+    return {};
+  }
+  const entries = typeof exports === "string" ? { ".": exports } : exports;
+  return Object.fromEntries(
+    Object.entries(entries).flatMap(([key, target]) => {
+      const specifier = key === "."
+        ? name
+        : `${name}/${key.replace(/^\.\//, "")}`;
+      const path = join(dir, target);
+      return [[specifier, path], [`jsr:${specifier}`, path]];
+    }),
+  );
+};
+
+/**
+ * Loads the import map declared in the deno.json of the cwd, including its workspace members.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @returns {Promise<ImportMap>} The import map.
+ */
+const loadImportMap = async (ctx: CodeModContext): Promise<ImportMap> => {
+  const cwd = ctx.fs.cwd();
+  const denoJSON = await readDenoJSON(ctx.fs, cwd);
+  if (!denoJSON) {
+    return { imports: {}, scopes: {} };
+  }
+  const importMap = await readImportMap(ctx.fs, denoJSON.content, cwd);
+  let workspace: Record<string, string> = {};
+  for (const member of denoJSON.content.workspace ?? []) {
+    const dir = join(cwd, member);
+    const memberJSON = await readDenoJSON(ctx.fs, dir);
+    if (!memberJSON) {
+      continue;
+    }
+    // files of a member resolve through its own imports first.
+    const memberMap = await readImportMap(ctx.fs, memberJSON.content, dir);
+    importMap.scopes = {
+      ...memberMap.scopes,
+      ...importMap.scopes,
+      [`${dir}/`]: memberMap.imports,
+    };
+    workspace = { ...workspace, ...memberImports(memberJSON.content, dir) };
+  }
+  // explicit entries win over workspace members.
+  importMap.imports = { ...workspace, ...importMap.imports };
+  return importMap;
+};
+
+/**
+ * Returns the import map of a codemod run, loading it on first use.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {Promise<ImportMap>} The import map.
+ */
+export const importMapOf = (ctx: CodeModContext): Promise<ImportMap> => {
+  let importMap = IMPORT_MAPS.get(ctx);
+  if (!importMap) {
+    importMap = loadImportMap(ctx);
+    IMPORT_MAPS.set(ctx, importMap);
+  }
+  return importMap;
+};
+
+/**
+ * Finds the import map entry that applies to a specifier, preferring exact matches
+ * and then the longest matching prefix.
+ * @param {Record<string, string>} imports - The import map entries.
+ * @param {string} specifier - The module specifier.
+ * @returns {[string, string] | undefined} The matching entry.
+ */
+export const importMapEntry = (
+  imports: Record<string, string>,
+  specifier: string,
+): [string, string] | undefined => {
+  if (specifier in imports) {
+    return [specifier, imports[specifier]];
+  }
+  let match: [string, string] | undefined;
+  for (const [key, target] of Object.entries(imports)) {
+    const prefix = key.endsWith("/") || !isPackage(target) ? key : `${key}/`;
+    if (
+      prefix.endsWith("/") && specifier.startsWith(prefix) &&
+      key.length > (match?.[0].length ?? 0)
+    ) {
+      match = [key, target];
+    }
+  }
+  return match;
+};
+
+/**
+ * Returns the entries that apply to a referrer, the most specific scope first.
+ * @param {ImportMap} importMap - The import map.
+ * @param {string} referrer - The path of the importing file.
+ * @returns {Record<string, string>[]} The scoped entries followed by the top-level ones.
+ */
+const entriesFor = (
+  { imports, scopes }: ImportMap,
+  referrer: string,
+): Record<string, string>[] => [
+  ...Object.keys(scopes)
+    .filter((prefix) =>
+      prefix.endsWith("/") ? referrer.startsWith(prefix) : referrer === prefix
+    )
+    .sort((a, b) => b.length - a.length)
+    .map((prefix) => scopes[prefix]),
+  imports,
+];
+
+/**
+ * Resolves a module specifier through the import map.
+ * @param {ImportMap} importMap - The import map.
+ * @param {string} specifier - The module specifier.
+ * @param {string} referrer - The path of the importing file.
+ * @returns {string} An absolute path for local modules, otherwise the mapped specifier (e.g. a URL).
+ */
+export const resolveSpecifier = (
+  importMap: ImportMap,
+  specifier: string,
+  referrer: string,
+): string => {
+  if (isRelative(specifier)) {
+    return join(dirname(referrer), specifier);
+  }
+  if (isAbsolute(specifier)) {
+    return specifier;
+  }
+  for (const imports of entriesFor(importMap, referrer)) {
+    const entry = importMapEntry(imports, specifier);
+    if (entry) {
+      const [key, target] = entry;
+      return `${target}${specifier.slice(key.length)}`;
+    }
+  }
+  return specifier;
+};
+
+// the scheme, name, version and path of a jsr: or npm: specifier.
+const PACKAGE = /^(jsr:|npm:)\/?(@[^/]+\/[^@/]+|[^@/]+)(?:@([^/]*))?(\/.*)?$/;
+
+/**
+ * Returns the version of a jsr:, npm: or registry URL specifier.
+ * @param {string} specifier - The resolved module specifier.
+ * @returns {string | undefined} The version or version range, if the specifier has one.
+ */
+const versionOf = (specifier: string): string | undefined => {
+  const pkg = specifier.match(PACKAGE);
+  if (pkg) {
+    return pkg[3] || undefined;
+  }
+  try {
+    return lookup(specifier)?.version();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Removes the version of a jsr:, npm: or registry URL specifier, so that every version
+ * of a module is identified the same way.
+ * @param {string} specifier - The resolved module specifier.
+ * @returns {string} The specifier without version.
+ */
+export const normalizeSpecifier = (specifier: string): string => {
+  const pkg = specifier.match(PACKAGE);
+  if (pkg) {
+    const [, scheme, name, , path = ""] = pkg;
+    return `${scheme}${name}${path}`;
+  }
+  const version = versionOf(specifier);
+  return version ? specifier.replace(`@${version}`, "") : specifier;
+};
+
+/**
+ * Checks if an import map target can stand for a requested specifier, that is, if their
+ * versions overlap. Specifiers without a version match any version.
+ * @param {string} specifier - The requested specifier.
+ * @param {string} target - The import map target.
+ * @returns {boolean} True if the versions are compatible.
+ */
+const compatibleVersions = (specifier: string, target: string): boolean => {
+  const [requested, available] = [versionOf(specifier), versionOf(target)];
+  if (!requested || !available) {
+    return true;
+  }
+  const [a, b] = [tryParseRange(requested), tryParseRange(available)];
+  return a && b ? rangeIntersects(a, b) : requested === available;
+};
+
+/**
+ * Resolves a module specifier through the import map and removes its version.
+ * @param {ImportMap} importMap - The import map.
+ * @param {string} specifier - The module specifier.
+ * @param {string} referrer - The path of the importing file.
+ * @returns {string} An identifier of the module shared by every specifier pointing to it.
+ */
+export const moduleIdOf = (
+  importMap: ImportMap,
+  specifier: string,
+  referrer: string,
+): string =>
+  normalizeSpecifier(resolveSpecifier(importMap, specifier, referrer));
+
+/**
+ * Returns the specifier and target prefixes of an entry that maps a whole directory or package.
+ * @param {string} key - The import map key.
+ * @param {string} target - The normalized import map target.
+ * @returns {[string, string] | undefined} The prefixes, if the entry maps subpaths.
+ */
+const prefixesOf = (
+  key: string,
+  target: string,
+): [string, string] | undefined => {
+  if (key.endsWith("/") && target.endsWith("/")) {
+    return [key, target];
+  }
+  return !key.endsWith("/") && isPackage(target)
+    ? [`${key}/`, `${target}/`]
+    : undefined;
+};
+
+/**
+ * Finds an import map alias for a local path or a module specifier, entries pinned to
+ * a version the specifier does not accept are ignored.
+ * Exact entries win over the directory or package entry with the longest target.
+ * @param {ImportMap} importMap - The import map.
+ * @param {string} specifier - The absolute path or specifier of the module.
+ * @param {string} referrer - The path of the importing file.
+ * @param {string} [preferred] - A directory entry to use if it contains the module.
+ * @returns {string | undefined} The aliased specifier, if any entry points to the module.
+ */
+export const aliasForSpecifier = (
+  importMap: ImportMap,
+  specifier: string,
+  referrer: string,
+  preferred?: string,
+): string | undefined => {
+  const id = normalizeSpecifier(specifier);
+  const imports: Record<string, string> = Object.fromEntries(
+    Object.entries<string>(
+      Object.assign({}, ...entriesFor(importMap, referrer).reverse()),
+    ).filter(([, target]) => compatibleVersions(specifier, target)),
+  );
+  const preferredPrefixes = preferred && preferred in imports
+    ? prefixesOf(preferred, normalizeSpecifier(imports[preferred]))
+    : undefined;
+  if (preferredPrefixes && id.startsWith(preferredPrefixes[1])) {
+    return `${preferredPrefixes[0]}${id.slice(preferredPrefixes[1].length)}`;
+  }
+  let alias: [string, string] | undefined;
+  for (const [key, target] of Object.entries<string>(imports)) {
+    const normalized = normalizeSpecifier(target);
+    if (normalized === id) {
+      return key;
+    }
+    const prefixes = prefixesOf(key, normalized);
+    if (
+      prefixes && id.startsWith(prefixes[1]) &&
+      prefixes[1].length > (alias?.[1].length ?? 0)
+    ) {
+      alias = prefixes;
+    }
+  }
+  return alias && `${alias[0]}${id.slice(alias[1].length)}`;
+};
+
+/**
+ * Returns the specifier a file imports a module with, given the module as it is written in
+ * a codemod: relative specifiers are relative to the cwd.
+ * @param {ImportMap} importMap - The import map.
+ * @param {string} moduleSpecifier - The module specifier, relative to the cwd if it is relative.
+ * @param {string} referrer - The path of the importing file.
+ * @param {string} cwd - The current working directory.
+ * @returns {string} An import map alias if one points to the module, otherwise the specifier, relative to the file if it is local.
+ */
+export const importSpecifierFor = (
+  importMap: ImportMap,
+  moduleSpecifier: string,
+  referrer: string,
+  cwd: string,
+): string => {
+  if (!isRelative(moduleSpecifier)) {
+    return aliasForSpecifier(importMap, moduleSpecifier, referrer) ??
+      moduleSpecifier;
+  }
+  const path = join(cwd, moduleSpecifier);
+  return aliasForSpecifier(importMap, path, referrer) ??
+    relativeSpecifier(referrer, path);
+};
@@ -0,0 +1,480 @@
+import {
+  type ExportDeclarationStructure,
+  type ExportSpecifierStructure,
+  type Identifier,
+  type ImportDeclaration,
+  type ImportDeclarationStructure,
+  type ImportSpecifierStructure,
+  Node,
+  type OptionalKind,
+  type SourceFile,
+  StructureKind,
+  ts,
+} from "npm:ts-morph@^21.0";
+
+/**
+ * Describes where a symbol has moved to.
+ */
+export interface SymbolRewrite {
+  moduleSpecifier: string;
+  isTypeOnly?: boolean;
+  // the new export name, defaults to the current one.
+  name?: string;
+}
+
+/**
+ * A map of module specifiers to the symbols they export and where those symbols moved to.
+ * Use `DEFAULT_EXPORT` for the default export and `NAMESPACE` when the whole module moved.
+ * @typedef {Record<string, Record<string, SymbolRewrite>>} SymbolMap
+ */
+export type SymbolMap = Record<string, Record<string, SymbolRewrite>>;
+
+/**
+ * The SymbolMap key of the default export of a module.
+ */
+export const DEFAULT_EXPORT = "default";
+
+/**
+ * The SymbolMap key describing where every symbol not listed explicitly moved to.
+ * It also rewrites `export * from`, `import * as` and dynamic `import()` of the module.
+ */
+export const NAMESPACE = "*";
+
+/**
+ * Represents options for rewriting imports.
+ */
+export interface RewriteImportsOptions {
+  // rename the local identifier and its references when a symbol is renamed, instead of aliasing it.
+  renameReferences?: boolean;
+}
+
+/**
+ * Represents how module specifiers are compared and written, e.g. through an import map.
+ */
+export interface SpecifierResolution {
+  // maps a specifier of the file to the SymbolMap key it matches.
+  resolve?: (specifier: string) => string;
+  // maps a SymbolMap module specifier to the specifier written in the file.
+  specifierFor?: (moduleSpecifier: string) => string;
+}
+
+/**
+ * Represents a local identifier that could not be renamed because the new name is already bound.
+ */
+export interface RenameCollision {
+  name: string;
+  newName: string;
+  moduleSpecifier: string;
+}
+
+// imported names are aliases, they are bindings too.
+const BINDINGS = ts.SymbolFlags.Value | ts.SymbolFlags.Type |
+  ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias;
+
+/**
+ * Collects the declarations to add to a source file, grouped by module specifier,
+ * and the renames that could not be applied.
+ */
+class NewDeclarations {
+  imports = new Map<string, ImportDeclarationStructure>();
+  exports = new Map<string, ExportDeclarationStructure>();
+  collisions: RenameCollision[] = [];
+  specifierFor: (moduleSpecifier: string) => string;
+
+  constructor(specifierFor = (moduleSpecifier: string) => moduleSpecifier) {
+    this.specifierFor = specifierFor;
+  }
+
+  /**
+   * Returns the import declaration for a module, creating it if needed.
+   * @param {string} moduleSpecifier - The module specifier.
+   * @returns {ImportDeclarationStructure} The import declaration structure.
+   */
+  import(moduleSpecifier: string): ImportDeclarationStructure {
+    moduleSpecifier = this.specifierFor(moduleSpecifier);
+    let structure = this.imports.get(moduleSpecifier);
+    if (!structure) {
+      structure = {
+        kind: StructureKind.ImportDeclaration,
+        moduleSpecifier,
+        namedImports: [],
+      };
+      this.imports.set(moduleSpecifier, structure);
+    }
+    return structure;
+  }
+
+  /**
+   * Adds a named import, unless the same binding is already being added.
+   * @param {string} moduleSpecifier - The module specifier.
+   * @param {OptionalKind<ImportSpecifierStructure>} namedImport - The named import.
+   */
+  namedImport(
+    moduleSpecifier: string,
+    namedImport: OptionalKind<ImportSpecifierStructure>,
+  ) {
+    const namedImports = this.import(moduleSpecifier).namedImports;
+    if (!Array.isArray(namedImports)) {
+      return;
+    }
+    const local = namedImport.alias ?? namedImport.name;
+    const exists = namedImports.some((existing) =>
+      typeof existing === "object" &&
+      (existing.alias ?? existing.name) === local
+    );
+    !exists && namedImports.push(namedImport);
+  }
+
+  /**
+   * Adds a named re-export.
+   * @param {string} moduleSpecifier - The module specifier.
+   * @param {OptionalKind<ExportSpecifierStructure>} namedExport - The named export.
+   */
+  namedExport(
+    moduleSpecifier: string,
+    namedExport: OptionalKind<ExportSpecifierStructure>,
+  ) {
+    moduleSpecifier = this.specifierFor(moduleSpecifier);
+    let structure = this.exports.get(moduleSpecifier);
+    if (!structure) {
+      structure = {
+        kind: StructureKind.ExportDeclaration,
+        moduleSpecifier,
+        namedExports: [],
+      };
+      this.exports.set(moduleSpecifier, structure);
+    }
+    Array.isArray(structure.namedExports) &&
+      structure.namedExports.push(namedExport);
+  }
+}
+
+/**
+ * Returns the alias needed to keep a local name when the exported name changes.
+ * @param {string} local - The local name.
+ * @param {string} name - The exported name.
+ * @returns {string | undefined} The alias, or undefined if the names are the same.
+ */
+const aliasFor = (local: string, name: string): string | undefined =>
+  local === name ? undefined : local;
+
+/**
+ * Checks if a name is already bound where an identifier or any of its references are used.
+ * @param {Identifier} identifier - The identifier to rename.
+ * @param {string} name - The new name.
+ * @returns {boolean} True if renaming would shadow or conflict with another binding.
+ */
+const collides = (identifier: Identifier, name: string): boolean => {
+  const sourceFile = identifier.getSourceFile();
+  return [identifier, ...identifier.findReferencesAsNodes()]
+    .filter((ref) => ref.getSourceFile() === sourceFile)
+    .some((ref) =>
+      ref.getSymbolsInScope(BINDINGS).some((symbol) =>
+        symbol.getName() === name
+      )
+    );
+};
+
+/**
+ * Rewrites the `ns.symbol` accesses of a namespace import whose symbols moved,
+ * importing the moved symbols directly.
+ * @param {Identifier} namespaceImport - The namespace import identifier.
+ * @param {Record<string, SymbolRewrite>} rewriters - The moved symbols of the module.
+ * @param {boolean} isTypeOnly - Whether the namespace import is type only.
+ * @param {NewDeclarations} declarations - The declarations to add.
+ * @param {RewriteImportsOptions} options - The rewrite options.
+ * @returns {boolean} True if the namespace is still referenced.
+ */
+const rewriteNamespaceAccesses = (
+  namespaceImport: Identifier,
+  rewriters: Record<string, SymbolRewrite>,
+  isTypeOnly: boolean,
+  declarations: NewDeclarations,
+  { renameReferences }: RewriteImportsOptions,
+): boolean => {
+  const sourceFile = namespaceImport.getSourceFile();
+  let referenced = false;
+  for (const ref of namespaceImport.findReferencesAsNodes()) {
+    if (ref.getSourceFile() !== sourceFile || ref === namespaceImport) {
+      continue;
+    }
+    const parent = ref.getParent();
+    // `ns.member` in expressions, `ns.Member` in types.
+    const member = Node.isPropertyAccessExpression(parent) &&
+        parent.getExpression() === ref
+      ? parent.getName()
+      : Node.isQualifiedName(parent) && parent.getLeft() === ref
+      ? parent.getRight().getText()
+      : undefined;
+    const rewriter = member !== undefined ? rewriters[member] : undefined;
+    if (!parent || !member || !rewriter) {
+      referenced = true;
+      continue;
+    }
+    const taken = (local: string) =>
+      parent.getSymbolsInScope(BINDINGS).some((symbol) =>
+        symbol.getName() === local
+      );
+    const name = rewriter.name ?? member;
+    const renamed = renameReferences && name !== member;
+    let local = renamed && !taken(name) ? name : member;
+    // a binding in scope with the same name, e.g. a parameter, would capture the reference.
+    if (taken(local)) {
+      local = `${namespaceImport.getText()}_${local}`;
+      if (taken(local)) {
+        referenced = true;
+        continue;
+      }
+    }
+    renamed && local !== name && declarations.collisions.push({
+      name: member,
+      newName: name,
+      moduleSpecifier: rewriter.moduleSpecifier,
+    });
+    declarations.namedImport(rewriter.moduleSpecifier, {
+      name,
+      alias: aliasFor(local, name),
+      isTypeOnly: rewriter.isTypeOnly ?? isTypeOnly,
+    });
+    parent.replaceWithText(local);
+  }
+  return referenced;
+};
+
+/**
+ * Rewrites an import declaration of a module whose symbols moved.
+ * @param {ImportDeclaration} importDecl - The import declaration.
+ * @param {Record<string, SymbolRewrite>} rewriters - The moved symbols of the module.
+ * @param {NewDeclarations} declarations - The declarations to add.
+ * @param {RewriteImportsOptions} options - The rewrite options.
+ */
+const rewriteImportDeclaration = (
+  importDecl: ImportDeclaration,
+  rewriters: Record<string, SymbolRewrite>,
+  declarations: NewDeclarations,
+  options: RewriteImportsOptions,
+) => {
+  const declTypeOnly = importDecl.isTypeOnly();
+  let removed = false;
+
+  for (const namedImport of importDecl.getNamedImports()) {
+    const name = namedImport.getName();
+    const rewriter = rewriters[name];
+    if (!rewriter) {
+      continue;
+    }
+    const alias = namedImport.getAliasNode()?.getText();
+    const newName = rewriter.name ?? name;
+    // explicit aliases are kept, only the imported name is renamed.
+    let local = alias ?? name;
+    if (options.renameReferences && !alias && newName !== name) {
+      const identifier = namedImport.getNameNode();
+      if (Node.isIdentifier(identifier) && !collides(identifier, newName)) {
+        identifier.rename(newName, { usePrefixAndSuffixText: true });
+        local = newName;
+      } else {
+        declarations.collisions.push({
+          name,
+          newName,
+          moduleSpecifier: rewriter.moduleSpecifier,
+        });
+      }
+    }
+    declarations.namedImport(rewriter.moduleSpecifier, {
+      name: newName,
+      // this avoids breaking change when referencing the same symbol multiple times
+      alias: aliasFor(local, newName),
+      isTypeOnly: rewriter.isTypeOnly ??
+        (namedImport.isTypeOnly() || declTypeOnly),
+    });
+    namedImport.remove();
+    removed = true;
+  }
+
+  const defaultImport = importDecl.getDefaultImport();
+  const defaultRewriter = rewriters[DEFAULT_EXPORT];
+  if (defaultImport && defaultRewriter) {
+    let local = defaultImport.getText();
+    const name = defaultRewriter.name ?? DEFAULT_EXPORT;
+    // a default export that becomes a named one takes its name, like a renamed named import.
+    if (
+      options.renameReferences && name !== DEFAULT_EXPORT && name !== local
+    ) {
+      if (!collides(defaultImport, name)) {
+        defaultImport.rename(name);
+        local = name;
+      } else {
+        declarations.collisions.push({
+          name: local,
+          newName: name,
+          moduleSpecifier: defaultRewriter.moduleSpecifier,
+        });
+      }
+    }
+    const isTypeOnly = defaultRewriter.isTypeOnly ?? declTypeOnly;
+    const structure = declarations.import(defaultRewriter.moduleSpecifier);
+    if (name === DEFAULT_EXPORT && !isTypeOnly && !structure.defaultImport) {
+      structure.defaultImport = local;
+    } else {
+      declarations.namedImport(defaultRewriter.moduleSpecifier, {
+        name,
+        alias: aliasFor(local, name),
+        isTypeOnly,
+      });
+    }
+    importDecl.removeDefaultImport();
+    removed = true;
+  }
+
+  const namespaceImport = importDecl.getNamespaceImport();
+  const whole = rewriters[NAMESPACE];
+  if (namespaceImport && !whole) {
+    const referenced = rewriteNamespaceAccesses(
+      namespaceImport,
+      rewriters,
+      declTypeOnly,
+      declarations,
+      options,
+    );
+    if (!referenced) {
+      importDecl.removeNamespaceImport();
+      removed = true;
+    }
+  }
+
+  const hasBindings = importDecl.getDefaultImport() ||
+    importDecl.getNamespaceImport() ||
+    importDecl.getNamedImports().length > 0;
+  if (removed && !hasBindings) {
+    importDecl.remove();
+  } else if (whole) {
+    importDecl.setModuleSpecifier(
+      declarations.specifierFor(whole.moduleSpecifier),
+    );
+  }
+};
+
+/**
+ * Adds import declarations, merging them into the imports the file already has from the same
+ * module, so that rewriting a partially migrated file does not duplicate them.
+ * @param {SourceFile} sourceFile - The source file.
+ * @param {ImportDeclarationStructure[]} structures - The import declarations to add.
+ */
+const addImports = (
+  sourceFile: SourceFile,
+  structures: ImportDeclarationStructure[],
+) => {
+  const added: ImportDeclarationStructure[] = [];
+  for (const structure of structures) {
+    const existing = sourceFile.getImportDeclarations().filter((importDecl) =>
+      importDecl.getModuleSpecifierValue() === structure.moduleSpecifier
+    );
+    const locals = new Set(existing.flatMap((importDecl) =>
+      [
+        ...importDecl.getNamedImports().map((specifier) =>
+          specifier.getAliasNode()?.getText() ?? specifier.getName()
+        ),
+        importDecl.getDefaultImport()?.getText() ?? [],
+      ].flat()
+    ));
+    const namedImports = Array.isArray(structure.namedImports)
+      ? structure.namedImports.filter((namedImport) =>
+        typeof namedImport !== "object" ||
+        !locals.has(namedImport.alias ?? namedImport.name)
+      )
+      : [];
+    const defaultImport = structure.defaultImport &&
+        !locals.has(structure.defaultImport)
+      ? structure.defaultImport
+      : undefined;
+    // type-only and namespace imports cannot take more bindings.
+    const target = existing.find((importDecl) =>
+      !importDecl.isTypeOnly() && !importDecl.getNamespaceImport() &&
+      (!defaultImport || !importDecl.getDefaultImport())
+    );
+    if (!target) {
+      (defaultImport || namedImports.length > 0) &&
+        added.push({ ...structure, defaultImport, namedImports });
+      continue;
+    }
+    defaultImport && target.setDefaultImport(defaultImport);
+    namedImports.length > 0 && target.addNamedImports(namedImports);
+  }
+  sourceFile.addImportDeclarations(added);
+};
+
+/**
+ * Rewrites the imports, re-exports and dynamic imports of a source file based on a symbol map.
+ * @param {SourceFile} sourceFile - The source file to rewrite.
+ * @param {SymbolMap} symbolMap - A map of symbols to rewrite.
+ * @param {RewriteImportsOptions & SpecifierResolution} [options={}] - The rewrite options.
+ * @returns {RenameCollision[]} The identifiers that were aliased because they could not be renamed.
+ */
+export const rewriteSourceFileImports = (
+  sourceFile: SourceFile,
+  symbolMap: SymbolMap,
+  options: RewriteImportsOptions & SpecifierResolution = {},
+): RenameCollision[] => {
+  const declarations = new NewDeclarations(options.specifierFor);
+  const rewritersOf = (specifier: string) =>
+    symbolMap[options.resolve?.(specifier) ?? specifier];
+
+  for (const importDecl of sourceFile.getImportDeclarations()) {
+    const rewriters = rewritersOf(importDecl.getModuleSpecifierValue());
+    if (rewriters) {
+      rewriteImportDeclaration(importDecl, rewriters, declarations, options);
+    }
+  }
+
+  for (const exportDecl of sourceFile.getExportDeclarations()) {
+    const moduleSpecifier = exportDecl.getModuleSpecifierValue();
+    const rewriters = moduleSpecifier
+      ? rewritersOf(moduleSpecifier)
+      : undefined;
+    if (!rewriters) {
+      continue;
+    }
+    const declTypeOnly = exportDecl.isTypeOnly();
+    const namedExports = exportDecl.getNamedExports();
+    for (const namedExport of namedExports) {
+      const name = namedExport.getName();
+      const rewriter = rewriters[name];
+      if (!rewriter) {
+        continue;
+      }
+      const alias = namedExport.getAliasNode()?.getText();
+      const newName = rewriter.name ?? name;
+      declarations.namedExport(rewriter.moduleSpecifier, {
+        name: newName,
+        // re-exports keep their public name.
+        alias: alias ?? aliasFor(name, newName),
+        isTypeOnly: rewriter.isTypeOnly ??
+          (namedExport.isTypeOnly() || declTypeOnly),
+      });
+      namedExport.remove();
+    }
+    if (namedExports.length > 0 && exportDecl.getNamedExports().length === 0) {
+      exportDecl.remove();
+    } else if (rewriters[NAMESPACE]) {
+      // `export * from`, `export * as ns from` and the remaining named exports.
+      exportDecl.setModuleSpecifier(
+        declarations.specifierFor(rewriters[NAMESPACE].moduleSpecifier),
+      );
+    }
+  }
+
+  // dynamic `import()` and `import("...").Type` can only follow whole module moves.
+  for (const literal of sourceFile.getImportStringLiterals()) {
+    const parent = literal.getParent();
+    if (Node.isImportDeclaration(parent) || Node.isExportDeclaration(parent)) {
+      continue;
+    }
+    const whole = rewritersOf(literal.getLiteralValue())?.[NAMESPACE];
+    whole &&
+      literal.setLiteralValue(declarations.specifierFor(whole.moduleSpecifier));
+  }
+
+  addImports(sourceFile, [...declarations.imports.values()]);
+  sourceFile.addExportDeclarations([...declarations.exports.values()]);
+  return declarations.collisions;
+};
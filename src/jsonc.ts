@@ -0,0 +1,196 @@
+import {
+  applyEdits,
+  type Edit,
+  findNodeAtLocation,
+  type FormattingOptions,
+  type JSONPath,
+  modify,
+  parse,
+  type ParseError,
+  parseTree,
+  printParseErrorCode,
+} from "npm:jsonc-parser@3.3.1";
+import type { CodeModContext, FilePatcher, JsonPatcher } from "./codemod.ts";
+
+/**
+ * Represents a change to a value at a given path of a document, an undefined value removes it.
+ */
+export interface ValueEdit {
+  path: (string | number)[];
+  value: unknown;
+}
+
+// dates, e.g. TOML datetimes, are values and not objects to walk into.
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value) &&
+  !(value instanceof Date);
+
+/**
+ * Computes the minimal set of value edits that turns one document into another.
+ * @param {unknown} before - The original value.
+ * @param {unknown} after - The new value.
+ * @param {(string | number)[]} [path=[]] - The path of the values being compared.
+ * @returns {ValueEdit[]} The edits, removals are described with an undefined value.
+ */
+export const valueEdits = (
+  before: unknown,
+  after: unknown,
+  path: (string | number)[] = [],
+): ValueEdit[] => {
+  if (isObject(before) && isObject(after)) {
+    const edits: ValueEdit[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after) || after[key] === undefined) {
+        edits.push({ path: [...path, key], value: undefined });
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (value === undefined) {
+        continue;
+      }
+      edits.push(
+        ...key in before
+          ? valueEdits(before[key], value, [...path, key])
+          : [{ path: [...path, key], value }],
+      );
+    }
+    return edits;
+  }
+  if (
+    Array.isArray(before) && Array.isArray(after) &&
+    before.length === after.length
+  ) {
+    return before.flatMap((item, i) =>
+      valueEdits(item, after[i], [...path, i])
+    );
+  }
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, value: after }];
+};
+
+/**
+ * Detects the indentation and line endings used by a document.
+ * @param {string} content - The document content.
+ * @returns {FormattingOptions} The formatting options matching the document.
+ */
+const formattingOf = (content: string): FormattingOptions => {
+  const indent = content.match(/^([ \t]+)\S/m)?.[1] ?? "  ";
+  return {
+    insertSpaces: !indent.startsWith("\t"),
+    tabSize: indent.startsWith("\t") ? 1 : indent.length,
+    eol: content.includes("\r\n") ? "\r\n" : "\n",
+  };
+};
+
+/**
+ * Inserts a new property after the last one of an object when that one ends with a comment,
+ * which `modify` would otherwise move to the end of the new property.
+ * @param {string} content - The document content.
+ * @param {ValueEdit} edit - The edit.
+ * @param {FormattingOptions} formattingOptions - The formatting options of the document.
+ * @returns {Edit[] | undefined} The text edits, or undefined if the edit is left to `modify`.
+ */
+const insertAfterComment = (
+  content: string,
+  { path, value }: ValueEdit,
+  { insertSpaces, tabSize = 2, eol = "\n" }: FormattingOptions,
+): Edit[] | undefined => {
+  const key = path.at(-1);
+  const root = parseTree(content, undefined, { allowTrailingComma: true });
+  const parent = root && findNodeAtLocation(root, path.slice(0, -1));
+  if (
+    !root || typeof key !== "string" || value === undefined ||
+    parent?.type !== "object" || !parent.children?.length ||
+    findNodeAtLocation(root, path)
+  ) {
+    return undefined;
+  }
+  const last = parent.children.at(-1)!;
+  const end = last.offset + last.length;
+  const trailing = content.slice(end).match(
+    /^[ \t]*(,?)[ \t]*(\/\/[^\r\n]*|\/\*[^\r\n]*?\*\/[ \t]*(?=\r?\n))/,
+  );
+  const indent = content.slice(
+    content.lastIndexOf("\n", last.offset) + 1,
+    last.offset,
+  );
+  // properties sharing a line with the comment are left to `modify`.
+  if (!trailing || !/^[ \t]*$/.test(indent)) {
+    return undefined;
+  }
+  const [match, comma] = trailing;
+  const unit = insertSpaces ? " ".repeat(tabSize) : "\t";
+  const json = JSON.stringify(value, null, unit).replaceAll(
+    "\n",
+    `${eol}${indent}`,
+  );
+  return [
+    ...comma ? [] : [{ offset: end, length: 0, content: "," }],
+    {
+      offset: end + match.length,
+      length: 0,
+      // a trailing comma is kept on the new last property.
+      content: `${eol}${indent}${JSON.stringify(key)}: ${json}${comma}`,
+    },
+  ];
+};
+
+/**
+ * Parses a JSONC document (JSON with comments and trailing commas).
+ * @template T The type of the parsed content.
+ * @param {string} content - The document content.
+ * @param {string} [path] - The file path, used in error messages.
+ * @returns {T} The parsed content.
+ * @throws {Error} - Throws an error if the document is not valid JSONC.
+ */
+export const parseJSONC = <T = unknown>(content: string, path?: string): T => {
+  const errors: ParseError[] = [];
+  const parsed = parse(content, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    const [{ error, offset }] = errors;
+    throw new Error(
+      `could not parse ${path ?? "JSONC"}: ${
+        printParseErrorCode(error)
+      } at offset ${offset}`,
+    );
+  }
+  return parsed;
+};
+
+/**
+ * Creates a FilePatcher for JSON and JSONC files that keeps comments, key order and indentation.
+ * Only the values changed by the patcher are rewritten.
+ * @template TIn The type of the input JSON content.
+ * @template TOut The type of the output JSON content.
+ * @template TContext The type of the CodeModContext.
+ * @param {JsonPatcher<TIn, TContext, TOut>} f - The JSON patcher function.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const jsonc = <
+  TIn,
+  TOut = TIn,
+  TContext extends CodeModContext = CodeModContext,
+>(f: JsonPatcher<TIn, TContext, TOut>): FilePatcher<TContext> =>
+async ({ path, content }, ctx) => {
+  const before = parseJSONC<TIn>(content, path);
+  // the patcher gets its own copy, so it can mutate it in place.
+  const result = await f({ path, content: structuredClone(before) }, ctx);
+
+  if ("deleted" in result) {
+    return result;
+  }
+  const formattingOptions = formattingOf(content);
+  let next = content;
+  for (const edit of valueEdits(before, result.content)) {
+    next = applyEdits(
+      next,
+      insertAfterComment(next, edit, formattingOptions) ??
+        modify(next, edit.path as JSONPath, edit.value, { formattingOptions }),
+    );
+  }
+  return {
+    path: result.path,
+    content: next,
+  };
+};
@@ -0,0 +1,41 @@
+import { assertEquals } from "@std/assert";
+import { jsonc } from "./jsonc.ts";
+import { inMemoryFS } from "./memfs.ts";
+
+const patch = async (
+  content: string,
+  f: (json: Record<string, unknown>) => Record<string, unknown>,
+) => {
+  const result = await jsonc<Record<string, unknown>>(({ path, content }) => ({
+    path,
+    content: f(content),
+  }))({ path: "/deno.jsonc", content }, { fs: inMemoryFS() });
+  return "deleted" in result ? undefined : result.content;
+};
+
+Deno.test("jsonc keeps comments and formatting of untouched entries", async () => {
+  assertEquals(
+    await patch(
+      `{\n  // the version\n  "version": "1.0.0",\n  "name": "x"\n}\n`,
+      (json) => ({ ...json, version: "1.1.0" }),
+    ),
+    `{\n  // the version\n  "version": "1.1.0",\n  "name": "x"\n}\n`,
+  );
+});
+
+Deno.test("jsonc adds properties after the trailing comment of the last entry", async () => {
+  assertEquals(
+    await patch(
+      `{\n  "a": "x", // note\n}\n`,
+      (json) => ({ ...json, b: "y" }),
+    ),
+    `{\n  "a": "x", // note\n  "b": "y",\n}\n`,
+  );
+  assertEquals(
+    await patch(
+      `{\n  "tasks": {\n    "a": "x" /* note */\n  }\n}\n`,
+      (json) => ({ tasks: { ...json.tasks as object, b: { c: 1 } } }),
+    ),
+    `{\n  "tasks": {\n    "a": "x", /* note */\n    "b": {\n      "c": 1\n    }\n  }\n}\n`,
+  );
+});
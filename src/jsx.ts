@@ -0,0 +1,411 @@
+import { basename, join } from "@std/path";
+import {
+  type JsxElement,
+  type JsxOpeningElement,
+  type JsxSelfClosingElement,
+  Node,
+  type SourceFile,
+  SyntaxKind,
+} from "npm:ts-morph@^21.0";
+import {
+  type CodeModContext,
+  type CodeModTarget,
+  type FilePatcher,
+  rewriteImport,
+  ts,
+} from "./codemod.ts";
+import { importMapOf, importSpecifierFor, moduleIdOf } from "./importMap.ts";
+import { DEFAULT_EXPORT } from "./imports.ts";
+import { reportOf } from "./report.ts";
+
+/**
+ * Identifies a component by the module that exports it, not by the name it is used with.
+ */
+export interface JsxComponent {
+  moduleSpecifier: string;
+  // the export name, `DEFAULT_EXPORT` for the default export.
+  name: string;
+}
+
+/**
+ * A prop value, strings are written as string attributes, `true` as a bare attribute.
+ */
+export type JsxPropValue = string | number | boolean | null;
+
+/**
+ * Describes the changes made to every element of a component.
+ */
+export interface JsxMigration {
+  // the props to rename, old name to new name.
+  renameProps?: Record<string, string>;
+  // the props to remove.
+  removeProps?: string[];
+  // the props to add to the elements that do not set them.
+  defaultProps?: Record<string, JsxPropValue>;
+  // the prop whose value becomes the children of the element.
+  propToChild?: string;
+  // the component every element is wrapped in, unless it already is.
+  wrap?: JsxComponent & { props?: Record<string, JsxPropValue> };
+  // the component the elements are replaced with, its imports and references are rewritten.
+  rename?: JsxComponent;
+}
+
+type JsxTag = JsxOpeningElement | JsxSelfClosingElement;
+
+/**
+ * Returns the names a component is used with in a file, through its imports.
+ * @param {SourceFile} sourceFile - The source file.
+ * @param {string} id - The module id of the component module.
+ * @param {string} name - The export name of the component.
+ * @param {(specifier: string) => string} resolve - Resolves a specifier of the file to a module id.
+ * @returns {string[]} The tag names, e.g. `Button` or `ui.Button`.
+ */
+const tagNamesOf = (
+  sourceFile: SourceFile,
+  id: string,
+  name: string,
+  resolve: (specifier: string) => string,
+): string[] =>
+  sourceFile.getImportDeclarations().flatMap((importDecl) => {
+    if (resolve(importDecl.getModuleSpecifierValue()) !== id) {
+      return [];
+    }
+    const defaultImport = importDecl.getDefaultImport()?.getText();
+    const namespaceImport = importDecl.getNamespaceImport()?.getText();
+    return [
+      ...name === DEFAULT_EXPORT && defaultImport ? [defaultImport] : [],
+      ...namespaceImport ? [`${namespaceImport}.${name}`] : [],
+      ...importDecl.getNamedImports()
+        .filter((specifier) => specifier.getName() === name)
+        .map((specifier) =>
+          specifier.getAliasNode()?.getText() ?? specifier.getName()
+        ),
+    ];
+  });
+
+/**
+ * Formats a prop value as a JSX attribute initializer.
+ * @param {JsxPropValue} value - The prop value.
+ * @returns {string | undefined} The initializer, e.g. `"lazy"` or `{100}`, undefined for `true`.
+ */
+const initializerOf = (value: JsxPropValue): string | undefined =>
+  value === true
+    ? undefined
+    : typeof value === "string" && !/["\\\n]/.test(value)
+    ? `"${value}"`
+    : `{${JSON.stringify(value)}}`;
+
+/**
+ * Returns the source of a prop value as JSX children.
+ * @param {Node | undefined} initializer - The attribute initializer.
+ * @returns {string} The children, e.g. `Hello` or `{title}`.
+ */
+const childOf = (initializer: Node | undefined): string => {
+  if (!initializer) {
+    return "{true}";
+  }
+  if (Node.isStringLiteral(initializer)) {
+    const text = initializer.getLiteralValue();
+    // text with JSX syntax or surrounding whitespace is kept as an expression.
+    return /[{}<>]|^\s|\s$/.test(text) ? `{${JSON.stringify(text)}}` : text;
+  }
+  return initializer.getText();
+};
+
+/**
+ * Returns the node an element is in the tree, the whole element for an opening tag.
+ * @param {JsxTag} element - The opening or self-closing element.
+ * @returns {JsxElement | JsxSelfClosingElement} The element node.
+ */
+const nodeOf = (element: JsxTag): JsxElement | JsxSelfClosingElement =>
+  Node.isJsxOpeningElement(element)
+    ? element.getParentIfKindOrThrow(SyntaxKind.JsxElement)
+    : element;
+
+/**
+ * Applies the prop changes of a migration to an element.
+ * @param {JsxTag} element - The element.
+ * @param {JsxMigration} migration - The migration.
+ * @param {(item: string, reason: string) => void} skip - Reports a change that was not applied.
+ * @returns {boolean} True if the element was changed.
+ */
+const migrateProps = (
+  element: JsxTag,
+  { renameProps = {}, removeProps = [], defaultProps = {} }: JsxMigration,
+  skip: (item: string, reason: string) => void,
+): boolean => {
+  let changed = false;
+  const propOf = (name: string) =>
+    element.getAttributes().find((attr) =>
+      Node.isJsxAttribute(attr) && attr.getNameNode().getText() === name
+    );
+  for (const [from, to] of Object.entries(renameProps)) {
+    const attr = propOf(from);
+    if (!attr || !Node.isJsxAttribute(attr)) {
+      continue;
+    }
+    if (propOf(to)) {
+      skip(
+        from,
+        `${from} was not renamed to ${to} because ${to} is already set`,
+      );
+      continue;
+    }
+    attr.getNameNode().replaceWithText(to);
+    changed = true;
+  }
+  for (const name of removeProps) {
+    const attr = propOf(name);
+    if (attr) {
+      attr.remove();
+      changed = true;
+    }
+  }
+  for (const [name, value] of Object.entries(defaultProps)) {
+    if (!propOf(name)) {
+      // before any spread, so the props it passes still win.
+      element.insertAttribute(0, { name, initializer: initializerOf(value) });
+      changed = true;
+    }
+  }
+  return changed;
+};
+
+/**
+ * Creates a FilePatcher that migrates the JSX elements of a component, found through
+ * its imports whatever name it is used with.
+ * @template TContext The type of the CodeModContext.
+ * @param {JsxComponent} component - The component whose elements are migrated.
+ * @param {JsxMigration} migration - The changes to make.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const migrateJsxPatcher = <
+  TContext extends CodeModContext = CodeModContext,
+>(
+  component: JsxComponent,
+  migration: JsxMigration,
+): FilePatcher<TContext> => {
+  const patcher = `migrateJsx(${component.name} from ${
+    JSON.stringify(component.moduleSpecifier)
+  })`;
+  const elements = ts<TContext>(async ({ content: sourceFile, path }, ctx) => {
+    const importMap = await importMapOf(ctx);
+    const resolve = (specifier: string) =>
+      moduleIdOf(importMap, specifier, path);
+    // keys are resolved like the specifiers of a module at the root of the project.
+    const root = join(ctx.fs.cwd(), "deno.json");
+    const idOf = ({ moduleSpecifier }: JsxComponent) =>
+      moduleIdOf(importMap, moduleSpecifier, root);
+
+    const tagNames = tagNamesOf(
+      sourceFile,
+      idOf(component),
+      component.name,
+      resolve,
+    );
+    const found = sourceFile.getDescendants().filter((node): node is JsxTag =>
+      (Node.isJsxOpeningElement(node) || Node.isJsxSelfClosingElement(node)) &&
+      tagNames.includes(node.getTagNameNode().getText())
+    );
+    if (found.length === 0) {
+      return { path, content: sourceFile };
+    }
+    const wrapper = migration.wrap &&
+      wrapperName(
+        sourceFile,
+        migration.wrap,
+        (specifier) =>
+          importSpecifierFor(importMap, specifier, path, ctx.fs.cwd()),
+        idOf,
+        resolve,
+      );
+    const skip = (item: string, reason: string) =>
+      reportOf(ctx).skipped.push({ path, item, reason });
+
+    const locations: { line: number; column: number }[] = [];
+    // from the last element, so the inner ones are migrated before their parents are replaced.
+    for (const element of found.toReversed()) {
+      const { line, column } = sourceFile.getLineAndColumnAtPos(
+        element.getStart(),
+      );
+      let changed = migrateProps(element, migration, skip);
+      let node = nodeOf(element);
+      if (migration.propToChild) {
+        // the element is replaced, so the next changes apply to the new node.
+        const replaced = propToChild(element, migration.propToChild, skip);
+        node = replaced ?? node;
+        changed = !!replaced || changed;
+      }
+      if (wrapper) {
+        changed = wrap(node, wrapper, migration.wrap!.props) || changed;
+      }
+      changed && locations.unshift({ line, column });
+    }
+    if (locations.length > 0) {
+      reportOf(ctx).matches.push({
+        path,
+        patcher,
+        count: locations.length,
+        locations,
+      });
+    }
+    return { path, content: sourceFile };
+  });
+
+  const { rename } = migration;
+  if (!rename) {
+    return elements;
+  }
+  // the elements follow the import, which rewriteImport renames with its references.
+  const renameImport = rewriteImport({
+    [component.moduleSpecifier]: {
+      [component.name]: {
+        moduleSpecifier: rename.moduleSpecifier,
+        name: rename.name,
+      },
+    },
+  }, { renameReferences: true });
+  return async (txt, ctx) => {
+    const out = await elements(txt, ctx);
+    if ("deleted" in out) {
+      return out;
+    }
+    return renameImport(
+      { path: out.path ?? txt.path, content: out.content },
+      ctx,
+    );
+  };
+};
+
+/**
+ * Moves a prop of an element to its children.
+ * @param {JsxTag} element - The element.
+ * @param {string} name - The prop name.
+ * @param {(item: string, reason: string) => void} skip - Reports a change that was not applied.
+ * @returns {JsxElement | undefined} The element that replaced the original one, undefined if it was not changed.
+ */
+const propToChild = (
+  element: JsxTag,
+  name: string,
+  skip: (item: string, reason: string) => void,
+): JsxElement | undefined => {
+  const attr = element.getAttributes().find((attr) =>
+    Node.isJsxAttribute(attr) && attr.getNameNode().getText() === name
+  );
+  if (!attr || !Node.isJsxAttribute(attr)) {
+    return undefined;
+  }
+  const node = nodeOf(element);
+  if (
+    Node.isJsxElement(node) &&
+    node.getJsxChildren().some((child) =>
+      !Node.isJsxText(child) || !child.containsOnlyTriviaWhiteSpaces()
+    )
+  ) {
+    skip(
+      name,
+      `${name} was not moved to the children because the element already has some`,
+    );
+    return undefined;
+  }
+  const child = childOf(attr.getInitializer());
+  attr.remove();
+  const tagName = element.getTagNameNode().getText();
+  const text = Node.isJsxSelfClosingElement(node)
+    ? `${node.getText().replace(/\s*\/>$/, ">")}${child}</${tagName}>`
+    : `${node.getOpeningElement().getText()}${child}${node.getClosingElement().getText()}`;
+  return node.replaceWithText(text) as JsxElement;
+};
+
+/**
+ * Returns the name of the wrapper component in a file, importing it if needed.
+ * @param {SourceFile} sourceFile - The source file.
+ * @param {JsxComponent} wrapper - The wrapper component.
+ * @param {(moduleSpecifier: string) => string} specifierFor - Returns the specifier the file imports a module with.
+ * @param {(component: JsxComponent) => string} idOf - Resolves the module id of a component.
+ * @param {(specifier: string) => string} resolve - Resolves a specifier of the file to a module id.
+ * @returns {string} The tag name of the wrapper.
+ */
+const wrapperName = (
+  sourceFile: SourceFile,
+  wrapper: JsxComponent,
+  specifierFor: (moduleSpecifier: string) => string,
+  idOf: (component: JsxComponent) => string,
+  resolve: (specifier: string) => string,
+): string => {
+  const id = idOf(wrapper);
+  const [existing] = tagNamesOf(sourceFile, id, wrapper.name, resolve);
+  if (existing) {
+    return existing;
+  }
+  const { moduleSpecifier, name } = wrapper;
+  const local = name === DEFAULT_EXPORT
+    ? basename(moduleSpecifier).replace(/\.[^.]*$/, "")
+    : name;
+  const importDecl = sourceFile.getImportDeclarations().find((importDecl) =>
+    !importDecl.isTypeOnly() &&
+    !importDecl.getNamespaceImport() &&
+    resolve(importDecl.getModuleSpecifierValue()) === id
+  );
+  if (importDecl && name === DEFAULT_EXPORT) {
+    importDecl.setDefaultImport(local);
+  } else if (importDecl) {
+    importDecl.addNamedImport(name);
+  } else {
+    sourceFile.addImportDeclaration({
+      moduleSpecifier: specifierFor(moduleSpecifier),
+      ...name === DEFAULT_EXPORT
+        ? { defaultImport: local }
+        : { namedImports: [name] },
+    });
+  }
+  return local;
+};
+
+/**
+ * Wraps an element in a wrapper element, unless its parent already is one.
+ * @param {JsxElement | JsxSelfClosingElement} node - The element.
+ * @param {string} wrapper - The tag name of the wrapper.
+ * @param {Record<string, JsxPropValue>} [props={}] - The props of the wrapper.
+ * @returns {boolean} True if the element was wrapped.
+ */
+const wrap = (
+  node: JsxElement | JsxSelfClosingElement,
+  wrapper: string,
+  props: Record<string, JsxPropValue> = {},
+): boolean => {
+  const parent = node.getParent();
+  if (
+    Node.isJsxElement(parent) &&
+    parent.getOpeningElement().getTagNameNode().getText() === wrapper
+  ) {
+    return false;
+  }
+  const attributes = Object.entries(props).map(([name, value]) => {
+    const initializer = initializerOf(value);
+    return initializer === undefined ? ` ${name}` : ` ${name}=${initializer}`;
+  }).join("");
+  node.replaceWithText(
+    `<${wrapper}${attributes}>${node.getText()}</${wrapper}>`,
+  );
+  return true;
+};
+
+/**
+ * Creates a CodeModTarget that migrates the JSX elements of a component in every TSX and JSX file:
+ * renaming, removing or defaulting props, moving a prop to the children, wrapping the elements and
+ * replacing the component.
+ * @template TContext The type of the CodeModContext.
+ * @param {JsxComponent} component - The component whose elements are migrated, e.g. `{ moduleSpecifier: "$fresh/runtime.ts", name: "Head" }`.
+ * @param {JsxMigration} migration - The changes to make.
+ * @returns {CodeModTarget<TContext>} A CodeModTarget object.
+ */
+export const migrateJsx = <
+  TContext extends CodeModContext = CodeModContext,
+>(
+  component: JsxComponent,
+  migration: JsxMigration,
+): CodeModTarget<TContext> => ({
+  include: ["**/*.tsx", "**/*.jsx"],
+  apply: migrateJsxPatcher(component, migration),
+});
@@ -0,0 +1,53 @@
+import { DEFAULT_EXPORT } from "./imports.ts";
+import { migrateJsx } from "./jsx.ts";
+import { testCodeMod } from "./testing.ts";
+
+Deno.test("migrateJsx moves a prop to the children and wraps the element", async () => {
+  await testCodeMod({
+    input: {
+      "routes/index.tsx": [
+        `import { Button } from "../components/Button.tsx";`,
+        `export default () => <Button label="Save" />;`,
+        "",
+      ].join("\n"),
+    },
+    targets: [migrateJsx(
+      { moduleSpecifier: "./components/Button.tsx", name: "Button" },
+      {
+        propToChild: "label",
+        wrap: { moduleSpecifier: "./components/Tooltip.tsx", name: "Tooltip" },
+      },
+    )],
+    expected: {
+      "routes/index.tsx": [
+        `import { Button } from "../components/Button.tsx";`,
+        `import { Tooltip } from "../components/Tooltip.tsx";`,
+        `export default () => <Tooltip><Button>Save</Button></Tooltip>;`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("migrateJsx renames the elements of a default export", async () => {
+  await testCodeMod({
+    input: {
+      "routes/index.tsx": [
+        `import Old from "../components/Old.tsx";`,
+        `export default () => <Old title="a"><Old /></Old>;`,
+        "",
+      ].join("\n"),
+    },
+    targets: [migrateJsx(
+      { moduleSpecifier: "./components/Old.tsx", name: DEFAULT_EXPORT },
+      { rename: { moduleSpecifier: "./components/New.tsx", name: "New" } },
+    )],
+    expected: {
+      "routes/index.tsx": [
+        `import { New } from "../components/New.tsx";`,
+        `export default () => <New title="a"><New /></New>;`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
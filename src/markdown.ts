@@ -0,0 +1,175 @@
+import type { CodeModContext, FilePatcher, JsonPatcher } from "./codemod.ts";
+
+/**
+ * Represents an ATX heading, e.g. `## Usage`.
+ */
+export interface MarkdownHeading {
+  type: "heading";
+  depth: number;
+  text: string;
+  // the original source, kept when the block is unchanged.
+  raw?: string;
+}
+
+/**
+ * Represents a fenced code block.
+ */
+export interface MarkdownCode {
+  type: "code";
+  // the first word of the info string, e.g. "tsx".
+  lang: string;
+  // the code between the fences, without the last line break.
+  code: string;
+  // the original source, kept when the block is unchanged.
+  raw?: string;
+}
+
+/**
+ * Represents any other lines (paragraphs, lists, tables, blank lines...), verbatim.
+ */
+export interface MarkdownText {
+  type: "text";
+  text: string;
+  // the original source, kept when the block is unchanged.
+  raw?: string;
+}
+
+export type MarkdownBlock = MarkdownHeading | MarkdownCode | MarkdownText;
+
+/**
+ * Represents a markdown document as a list of top-level blocks.
+ */
+export interface MarkdownDocument {
+  blocks: MarkdownBlock[];
+}
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*\r?$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+
+/**
+ * Parses a markdown document into headings, fenced code blocks and text blocks.
+ * @param {string} content - The document content.
+ * @returns {MarkdownDocument} The document.
+ */
+export const parseMarkdown = (content: string): MarkdownDocument => {
+  // every line keeps its line break, so the blocks concatenate back to the content.
+  const lines = content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const blocks: MarkdownBlock[] = [];
+  let text: string[] = [];
+  const flushText = () => {
+    if (text.length > 0) {
+      blocks.push({ type: "text", text: text.join(""), raw: text.join("") });
+      text = [];
+    }
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const heading = lines[i].replace(/\n$/, "").match(HEADING);
+    if (heading) {
+      flushText();
+      blocks.push({
+        type: "heading",
+        depth: heading[1].length,
+        text: heading[2] ?? "",
+        raw: lines[i],
+      });
+      continue;
+    }
+    const fence = lines[i].match(FENCE);
+    if (!fence) {
+      text.push(lines[i]);
+      continue;
+    }
+    flushText();
+    const [, marker, lang] = fence;
+    const closing = new RegExp(
+      `^ {0,3}${marker[0]}{${marker.length},}[ \\t]*\\r?$`,
+    );
+    let end = i + 1;
+    while (end < lines.length && !closing.test(lines[end].replace(/\n$/, ""))) {
+      end++;
+    }
+    blocks.push({
+      type: "code",
+      lang,
+      code: lines.slice(i + 1, end).join("").replace(/\r?\n$/, ""),
+      raw: lines.slice(i, end + 1).join(""),
+    });
+    i = end;
+  }
+  flushText();
+  return { blocks };
+};
+
+/**
+ * Formats a block as markdown.
+ * @param {MarkdownBlock} block - The block.
+ * @returns {string} The markdown, ending with a line break.
+ */
+const renderBlock = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case "heading":
+      return `${"#".repeat(block.depth)} ${block.text}\n`;
+    case "code": {
+      // the fence must be longer than any backtick run of the code.
+      const longest = Math.max(
+        2,
+        ...(block.code.match(/`+/g) ?? []).map((run) => run.length),
+      );
+      const fence = "`".repeat(longest + 1);
+      return `${fence}${block.lang}\n${
+        block.code ? `${block.code}\n` : ""
+      }${fence}\n`;
+    }
+    case "text":
+      return block.text.endsWith("\n") ? block.text : `${block.text}\n`;
+  }
+};
+
+/**
+ * Checks if a block still matches its original source.
+ * @param {MarkdownBlock} block - The block.
+ * @returns {boolean} True if the block has a source and was not changed.
+ */
+const unchanged = (block: MarkdownBlock): boolean => {
+  if (block.raw === undefined) {
+    return false;
+  }
+  const [original] = parseMarkdown(block.raw).blocks;
+  const { raw: _, ...fields } = block;
+  const { raw: __, ...originalFields } = original ?? {};
+  return JSON.stringify(fields) === JSON.stringify(originalFields);
+};
+
+/**
+ * Formats a markdown document, unchanged blocks keep their original source.
+ * @param {MarkdownDocument} doc - The document.
+ * @returns {string} The markdown.
+ */
+export const stringifyMarkdown = ({ blocks }: MarkdownDocument): string =>
+  blocks.map((block, i) => {
+    const out = unchanged(block) ? block.raw! : renderBlock(block);
+    // only the last block may end without a line break.
+    return i < blocks.length - 1 && !out.endsWith("\n") ? `${out}\n` : out;
+  }).join("");
+
+/**
+ * Creates a FilePatcher for markdown files, e.g. READMEs and changelogs.
+ * The patcher gets the top-level blocks of the document, the blocks it does not change are kept verbatim.
+ * @template TContext The type of the CodeModContext.
+ * @param {JsonPatcher<MarkdownDocument, TContext>} f - The markdown patcher function.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const markdown = <TContext extends CodeModContext = CodeModContext>(
+  f: JsonPatcher<MarkdownDocument, TContext>,
+): FilePatcher<TContext> =>
+async ({ path, content }, ctx) => {
+  const result = await f({ path, content: parseMarkdown(content) }, ctx);
+
+  if ("deleted" in result) {
+    return result;
+  }
+  return {
+    path: result.path,
+    content: stringifyMarkdown(result.content),
+  };
+};
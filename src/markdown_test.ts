@@ -0,0 +1,35 @@
+import { markdown } from "./markdown.ts";
+import { testCodeMod } from "./testing.ts";
+
+Deno.test("markdown keeps the blocks that are not changed verbatim", async () => {
+  const readme = (specifier: string) =>
+    [
+      "Title",
+      "=====",
+      "",
+      "<!-- generated, do not edit -->",
+      "*  a list   with odd spacing",
+      "",
+      "```tsx",
+      `import { Head } from "${specifier}";`,
+      "```",
+      "",
+      "##   Usage  ##",
+      "",
+    ].join("\n");
+  await testCodeMod({
+    input: { "README.md": readme("$live/head.ts") },
+    targets: [{
+      include: ["README.md"],
+      apply: markdown(({ path, content }) => {
+        for (const block of content.blocks) {
+          if (block.type === "code" && block.lang === "tsx") {
+            block.code = block.code.replaceAll("$live/", "deco/");
+          }
+        }
+        return { path, content };
+      }),
+    }],
+    expected: { "README.md": readme("deco/head.ts") },
+  });
+});
@@ -0,0 +1,172 @@
+import type { WalkEntry, WalkOptions } from "@std/fs/walk";
+import {
+  basename,
+  isAbsolute,
+  join,
+  normalize,
+  relative,
+  SEPARATOR,
+} from "@std/path";
+import type { CodeModContext } from "./codemod.ts";
+
+/**
+ * An in-memory implementation of the CodeModContext filesystem.
+ */
+export type InMemoryFS = CodeModContext["fs"] & {
+  /**
+   * Returns the current files keyed by their path relative to the cwd.
+   * @returns {Record<string, string>} The files and their contents.
+   */
+  snapshot: () => Record<string, string>;
+};
+
+/**
+ * Checks if a path should be yielded based on the walk filters, mirroring `@std/fs/walk`.
+ * @param {string} path - The path to check.
+ * @param {WalkOptions} options - The walk options.
+ * @returns {boolean} True if the path passes the filters.
+ */
+const include = (
+  path: string,
+  { exts, match, skip }: Pick<WalkOptions, "exts" | "match" | "skip">,
+): boolean => {
+  if (exts && !exts.some((ext) => path.endsWith(ext))) {
+    return false;
+  }
+  if (match && !match.some((pattern) => !!path.match(pattern))) {
+    return false;
+  }
+  if (skip && skip.some((pattern) => !!path.match(pattern))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Creates an in-memory filesystem, useful for testing codemods without touching the disk.
+ * @param {Record<string, string>} [files={}] - The initial files, keyed by path (relative to cwd or absolute).
+ * @param {string} [cwd="/"] - The working directory of the filesystem.
+ * @returns {InMemoryFS} The in-memory filesystem.
+ */
+export const inMemoryFS = (
+  files: Record<string, string> = {},
+  cwd = "/",
+): InMemoryFS => {
+  const root = normalize(cwd);
+  const resolve = (path: string | URL) => {
+    const str = path instanceof URL ? path.pathname : path;
+    return isAbsolute(str) ? normalize(str) : join(root, str);
+  };
+  const store = new Map<string, string>(
+    Object.entries(files).map(([path, content]) => [resolve(path), content]),
+  );
+
+  const isDir = (path: string) => {
+    const prefix = path.endsWith(SEPARATOR) ? path : `${path}${SEPARATOR}`;
+    for (const file of store.keys()) {
+      if (file.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const children = (dir: string) => {
+    const prefix = dir.endsWith(SEPARATOR) ? dir : `${dir}${SEPARATOR}`;
+    const entries = new Map<string, boolean>();
+    for (const file of store.keys()) {
+      if (!file.startsWith(prefix)) {
+        continue;
+      }
+      const [name, ...rest] = file.slice(prefix.length).split(SEPARATOR);
+      entries.set(name, entries.get(name) || rest.length > 0);
+    }
+    return [...entries.entries()].sort(([a], [b]) => a.localeCompare(b));
+  };
+
+  const entry = (
+    path: string,
+    isDirectory: boolean,
+  ): WalkEntry => ({
+    path,
+    name: basename(path),
+    isFile: !isDirectory,
+    isDirectory,
+    isSymlink: false,
+  });
+
+  async function* walk(
+    dir: string | URL,
+    options: WalkOptions = {},
+  ): AsyncIterableIterator<WalkEntry> {
+    const {
+      maxDepth = Infinity,
+      includeFiles = true,
+      includeDirs = true,
+    } = options;
+    const exts = options.exts?.map((ext) =>
+      ext.startsWith(".") ? ext : `.${ext}`
+    );
+    const path = dir instanceof URL ? dir.pathname : dir;
+    if (maxDepth < 0) {
+      return;
+    }
+    if (includeDirs && include(path, { ...options, exts })) {
+      yield entry(path, true);
+    }
+    if (maxDepth < 1 || !include(path, { skip: options.skip })) {
+      return;
+    }
+    for (const [name, isDirectory] of children(resolve(path))) {
+      const child = join(path, name);
+      if (isDirectory) {
+        yield* walk(child, { ...options, maxDepth: maxDepth - 1 });
+      } else if (includeFiles && include(child, { ...options, exts })) {
+        yield entry(child, false);
+      }
+    }
+  }
+
+  const notFound = (path: string) =>
+    new Deno.errors.NotFound(`No such file or directory: ${path}`);
+
+  return {
+    cwd: () => root,
+    exists: (path) => {
+      const resolved = resolve(path);
+      return Promise.resolve(store.has(resolved) || isDir(resolved));
+    },
+    remove: (path) => {
+      const resolved = resolve(path);
+      if (!store.delete(resolved)) {
+        return Promise.reject(notFound(path));
+      }
+      return Promise.resolve();
+    },
+    ensureFile: (path) => {
+      const resolved = resolve(path);
+      if (!store.has(resolved)) {
+        store.set(resolved, "");
+      }
+      return Promise.resolve();
+    },
+    writeTextFile: (path, content) => {
+      store.set(resolve(path), content);
+      return Promise.resolve();
+    },
+    readTextFile: (path) => {
+      const content = store.get(resolve(path));
+      if (content === undefined) {
+        return Promise.reject(notFound(path));
+      }
+      return Promise.resolve(content);
+    },
+    walk,
+    snapshot: () =>
+      Object.fromEntries(
+        [...store.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([path, content]) => [relative(root, path), content]),
+      ),
+  };
+};
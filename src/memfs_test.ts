@@ -0,0 +1,83 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { WalkOptions } from "@std/fs/walk";
+import { inMemoryFS } from "./memfs.ts";
+
+const files = {
+  "deno.json": "{}",
+  "routes/index.tsx": "",
+  "routes/api/users.ts": "",
+  "static/logo.svg": "",
+};
+
+const walked = async (options?: WalkOptions) => {
+  const paths: string[] = [];
+  for await (const entry of inMemoryFS(files).walk("/", options)) {
+    paths.push(entry.path);
+  }
+  return paths;
+};
+
+Deno.test("inMemoryFS walks files and directories in order", async () => {
+  assertEquals(await walked(), [
+    "/",
+    "/deno.json",
+    "/routes",
+    "/routes/api",
+    "/routes/api/users.ts",
+    "/routes/index.tsx",
+    "/static",
+    "/static/logo.svg",
+  ]);
+});
+
+Deno.test("inMemoryFS walk yields only files when includeDirs is false", async () => {
+  assertEquals(await walked({ includeDirs: false }), [
+    "/deno.json",
+    "/routes/api/users.ts",
+    "/routes/index.tsx",
+    "/static/logo.svg",
+  ]);
+});
+
+Deno.test("inMemoryFS walk filters files by match and exts", async () => {
+  assertEquals(
+    await walked({ includeDirs: false, match: [/routes/] }),
+    ["/routes/api/users.ts", "/routes/index.tsx"],
+  );
+  assertEquals(
+    await walked({ includeDirs: false, exts: ["tsx"] }),
+    ["/routes/index.tsx"],
+  );
+});
+
+Deno.test("inMemoryFS walk does not descend into skipped directories", async () => {
+  assertEquals(
+    await walked({ skip: [/\/api$/, /\.svg$/] }),
+    [
+      "/",
+      "/deno.json",
+      "/routes",
+      "/routes/index.tsx",
+      "/static",
+    ],
+  );
+});
+
+Deno.test("inMemoryFS walk stops at maxDepth", async () => {
+  assertEquals(await walked({ maxDepth: 1 }), [
+    "/",
+    "/deno.json",
+    "/routes",
+    "/static",
+  ]);
+});
+
+Deno.test("inMemoryFS reads, writes and removes files relative to the cwd", async () => {
+  const fs = inMemoryFS({ "a.ts": "a" }, "/project");
+  assertEquals(await fs.readTextFile("/project/a.ts"), "a");
+  await fs.writeTextFile("src/b.ts", "b");
+  assertEquals(await fs.exists("/project/src"), true);
+  await fs.remove("a.ts");
+  assertEquals(fs.snapshot(), { "src/b.ts": "b" });
+  await assertRejects(() => fs.readTextFile("a.ts"), Deno.errors.NotFound);
+});
@@ -0,0 +1,201 @@
+import { join } from "@std/path";
+import { canParse, parse, parseRange, satisfies } from "@std/semver";
+import {
+  codeMod,
+  type CodeModContext,
+  type CodeModOptions,
+  type CodeModResult,
+  type CodeModTarget,
+  type DefaultCodeModContext,
+} from "./codemod.ts";
+import { DEFAULT_FS } from "./fs.ts";
+
+/**
+ * The default path of the migrations state file, relative to the cwd.
+ */
+export const DEFAULT_MIGRATIONS_STATE_PATH = ".codemod/migrations.json";
+
+/**
+ * Represents a single step of a migration suite.
+ * @template TContext The type of the CodeModContext.
+ */
+export interface Migration<
+  TContext extends DefaultCodeModContext = DefaultCodeModContext,
+> {
+  // a unique and stable identifier, recorded once the migration is applied.
+  id: string;
+  description?: string;
+  // a semver range of the versions this migration applies to, e.g. ">=1.2.0".
+  versions?: string;
+  targets: CodeModTarget<TContext & CodeModContext>[];
+}
+
+/**
+ * Represents a migration recorded in the state file.
+ */
+export interface AppliedMigration {
+  id: string;
+  appliedAt: string;
+}
+
+/**
+ * Represents the migrations state file of a project.
+ */
+export interface MigrationsState {
+  // applied migrations, keyed by suite name.
+  suites: Record<string, AppliedMigration[]>;
+}
+
+/**
+ * Represents options for running a migration suite.
+ * @template TContext The type of the CodeModContext.
+ */
+export interface MigrationSuiteOptions<
+  TContext extends DefaultCodeModContext = DefaultCodeModContext,
+> extends Omit<CodeModOptions<TContext>, "targets" | "description"> {
+  name: string;
+  // the migrations, in the order they must be applied.
+  migrations: Migration<TContext>[];
+  // the version being migrated to, migrations whose range it does not satisfy are skipped.
+  version?: string;
+  // the state file path relative to the cwd, defaults to .codemod/migrations.json.
+  state?: string;
+}
+
+/**
+ * Represents the outcome of a migration suite run.
+ */
+export interface MigrationSuiteResult {
+  // migrations run in this call, with their codemod result.
+  applied: { id: string; result: CodeModResult }[];
+  // migrations that were already applied.
+  alreadyApplied: string[];
+  // migrations that do not apply to the target version.
+  skipped: string[];
+  // the first migration that was planned but not applied (dry run or declined), if any.
+  pending?: string;
+}
+
+/**
+ * Reads the migrations state file.
+ * @param {CodeModContext["fs"]} fs - The filesystem.
+ * @param {string} path - The state file path.
+ * @returns {Promise<MigrationsState>} The state, empty if the file does not exist.
+ */
+const readState = async (
+  fs: CodeModContext["fs"],
+  path: string,
+): Promise<MigrationsState> => {
+  if (!await fs.exists(path)) {
+    return { suites: {} };
+  }
+  return JSON.parse(await fs.readTextFile(path));
+};
+
+/**
+ * Checks if a migration applies to the target version.
+ * @param {Migration} migration - The migration.
+ * @param {string} [version] - The target version, every migration applies when it is not set.
+ * @returns {boolean} True if the migration should run.
+ */
+const appliesTo = (
+  { id, versions }: Pick<Migration, "id" | "versions">,
+  version?: string,
+): boolean => {
+  if (!versions || !version) {
+    return true;
+  }
+  if (!canParse(version)) {
+    throw new Error(`invalid version ${version} for migration ${id}`);
+  }
+  return satisfies(parse(version), parseRange(versions));
+};
+
+/**
+ * Runs the pending migrations of a suite in order, recording each applied migration
+ * in a state file so it is never applied twice.
+ * @template TContext The type of the CodeModContext.
+ * @param {MigrationSuiteOptions<TContext>} options - The migration suite options.
+ * @returns {Promise<MigrationSuiteResult>} The applied, already applied and skipped migrations.
+ * @throws {Error} - Throws an error if migrations were applied out of order or ids are duplicated.
+ */
+export const runMigrations = async <
+  TContext extends DefaultCodeModContext = DefaultCodeModContext,
+>(
+  {
+    name,
+    migrations,
+    version,
+    state = DEFAULT_MIGRATIONS_STATE_PATH,
+    ...options
+  }: MigrationSuiteOptions<TContext>,
+): Promise<MigrationSuiteResult> => {
+  const fs = options.context?.fs ?? DEFAULT_FS;
+  const statePath = join(fs.cwd(), state);
+  const current = await readState(fs, statePath);
+  const applied = new Set((current.suites[name] ?? []).map(({ id }) => id));
+
+  const ids = new Set<string>();
+  for (const { id } of migrations) {
+    if (ids.has(id)) {
+      throw new Error(`duplicated migration ${id} in ${name}`);
+    }
+    ids.add(id);
+  }
+
+  // an applied migration after a pending one means they would run out of order,
+  // migrations that do not apply to the target version are never pending.
+  const applicable = migrations.filter((migration) =>
+    appliesTo(migration, version)
+  );
+  const firstPending = applicable.findIndex(({ id }) => !applied.has(id));
+  const outOfOrder = applicable.slice(firstPending + 1).filter(({ id }) =>
+    applied.has(id)
+  );
+  if (firstPending !== -1 && outOfOrder.length > 0) {
+    throw new Error(
+      `refusing to run ${name}: ${
+        applicable[firstPending].id
+      } is pending but later migrations were already applied (${
+        outOfOrder.map(({ id }) => id).join(", ")
+      })`,
+    );
+  }
+
+  const result: MigrationSuiteResult = {
+    applied: [],
+    alreadyApplied: [...ids].filter((id) => applied.has(id)),
+    skipped: [],
+  };
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) {
+      continue;
+    }
+    if (!appliesTo(migration, version)) {
+      result.skipped.push(migration.id);
+      continue;
+    }
+    const run = await codeMod({
+      ...options,
+      name: `${name}: ${migration.id}`,
+      description: migration.description,
+      targets: migration.targets,
+    });
+    if (!run.applied) {
+      // the next migrations depend on this one, so they must not run yet.
+      result.pending = migration.id;
+      break;
+    }
+    result.applied.push({ id: migration.id, result: run });
+
+    const next = await readState(fs, statePath);
+    next.suites[name] = [
+      ...next.suites[name] ?? [],
+      { id: migration.id, appliedAt: new Date().toISOString() },
+    ];
+    await fs.ensureFile(statePath);
+    await fs.writeTextFile(statePath, `${JSON.stringify(next, null, 2)}\n`);
+  }
+  return result;
+};
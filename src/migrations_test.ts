@@ -0,0 +1,42 @@
+import { assertEquals } from "@std/assert";
+import type { CodeModTarget } from "./codemod.ts";
+import { inMemoryFS } from "./memfs.ts";
+import { type Migration, runMigrations } from "./migrations.ts";
+
+/**
+ * Creates a target that appends a line to a file.
+ * @param {string} line - The line to append.
+ * @returns {CodeModTarget} The target.
+ */
+const append = (line: string): CodeModTarget => ({
+  include: ["log.txt"],
+  apply: ({ path, content }) => ({ path, content: `${content}${line}\n` }),
+});
+
+Deno.test("runMigrations runs again a suite with a migration of another version", async () => {
+  const fs = inMemoryFS({ "log.txt": "" });
+  const migrations: Migration[] = [
+    { id: "a", targets: [append("a")] },
+    { id: "b", versions: ">=2.0.0", targets: [append("b")] },
+    { id: "c", targets: [append("c")] },
+  ];
+  const run = () =>
+    runMigrations({
+      name: "suite",
+      migrations,
+      version: "1.0.0",
+      context: { fs, formatters: {} },
+      yPrompt: false,
+      journal: false,
+    });
+
+  const first = await run();
+  assertEquals(first.applied.map(({ id }) => id), ["a", "c"]);
+  assertEquals(first.skipped, ["b"]);
+
+  const second = await run();
+  assertEquals(second.applied, []);
+  assertEquals(second.alreadyApplied, ["a", "c"]);
+  assertEquals(second.skipped, ["b"]);
+  assertEquals(fs.snapshot()["log.txt"], "a\nc\n");
+});
@@ -0,0 +1,331 @@
+import { dirname, join, normalize, SEPARATOR } from "@std/path";
+import { escape } from "@std/regexp";
+import {
+  type CodeModContext,
+  type CodeModTarget,
+  type FilePatcher,
+  ts,
+} from "./codemod.ts";
+import { type DenoJSON, readDenoJSON } from "./denoJSON.ts";
+import {
+  aliasForSpecifier,
+  importMapEntry,
+  importMapOf,
+  isRelative,
+  relativeSpecifier,
+  resolveSpecifier,
+} from "./importMap.ts";
+import { jsonc } from "./jsonc.ts";
+
+/**
+ * Maps the absolute path of a file to its new path, or undefined if it is not moved.
+ */
+export type PathMapping = (path: string) => string | undefined;
+
+const SOURCE_FILE = /\.(m?[jt]sx?)$/;
+const DENO_JSON = /deno\.jsonc?$/;
+const JSON_FILE = /\.jsonc?$/;
+
+/**
+ * Normalizes a path relative to the cwd, without trailing separators.
+ * @param {string} path - The path, e.g. `legacy/`.
+ * @returns {string} The normalized path, e.g. `legacy`.
+ */
+const normalized = (path: string): string =>
+  normalize(path).replace(new RegExp(`${escape(SEPARATOR)}+$`), "");
+
+/**
+ * Moves a local import map target or scope prefix.
+ * @param {string} target - The absolute path, directories end with a slash.
+ * @param {PathMapping} mapping - The path mapping.
+ * @returns {string} The new path, or the target if it is not moved.
+ */
+const movedTarget = (target: string, mapping: PathMapping): string => {
+  const isDir = target.endsWith("/");
+  const moved = mapping(isDir ? target.slice(0, -1) : target);
+  return moved === undefined ? target : isDir ? `${moved}/` : moved;
+};
+
+/**
+ * Moves the local targets of import map entries.
+ * @param {Record<string, string>} imports - The import map entries, with absolute local targets.
+ * @param {PathMapping} mapping - The path mapping.
+ * @returns {Record<string, string>} The entries pointing to the new paths.
+ */
+const movedImports = (
+  imports: Record<string, string>,
+  mapping: PathMapping,
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(imports).map((
+      [specifier, target],
+    ) => [specifier, movedTarget(target, mapping)]),
+  );
+
+/**
+ * Creates a FilePatcher that updates the module specifiers of a source file
+ * pointing to moved files, and moves the file itself if needed.
+ * @param {(cwd: string) => PathMapping} mappingFor - Creates the path mapping for a cwd.
+ * @returns {FilePatcher} The file patcher.
+ */
+const moveSourceFile = (
+  mappingFor: (cwd: string) => PathMapping,
+): FilePatcher =>
+  ts(async ({ content: sourceFile, path }, ctx) => {
+    const mapping = mappingFor(ctx.fs.cwd());
+    const importMap = await importMapOf(ctx);
+    // the import map as it is after its local entries and scopes are moved as well.
+    const movedImportMap = {
+      imports: movedImports(importMap.imports, mapping),
+      scopes: Object.fromEntries(
+        Object.entries(importMap.scopes).map(([prefix, imports]) => [
+          movedTarget(prefix, mapping),
+          movedImports(imports, mapping),
+        ]),
+      ),
+    };
+    const newPath = mapping(path) ?? path;
+
+    // import/export declarations, dynamic imports and import types.
+    for (const literal of sourceFile.getImportStringLiterals()) {
+      const specifier = literal.getLiteralValue();
+      const resolved = resolveSpecifier(importMap, specifier, path);
+      const target = mapping(resolved) ?? resolved;
+      if (target === resolved && newPath === path) {
+        continue;
+      }
+      if (isRelative(specifier)) {
+        const next = relativeSpecifier(newPath, target);
+        next !== specifier && literal.setLiteralValue(next);
+      } else if (
+        resolveSpecifier(movedImportMap, specifier, newPath) !== target
+      ) {
+        const [key] = importMapEntry(importMap.imports, specifier) ?? [];
+        literal.setLiteralValue(
+          aliasForSpecifier(movedImportMap, target, newPath, key) ??
+            relativeSpecifier(newPath, target),
+        );
+      }
+    }
+
+    return { content: sourceFile, path: newPath };
+  });
+
+/**
+ * Creates a function that updates a relative path declared in a file to the new path of its target.
+ * @param {string} path - The path of the declaring file.
+ * @param {PathMapping} mapping - The path mapping.
+ * @returns {(target: string) => string} The update function, non relative targets are left untouched.
+ */
+const updaterFor = (path: string, mapping: PathMapping) => (target: string) => {
+  if (!isRelative(target)) {
+    return target;
+  }
+  const isDir = target.endsWith("/");
+  const moved = mapping(join(dirname(path), target));
+  if (moved === undefined) {
+    return target;
+  }
+  const specifier = relativeSpecifier(path, moved);
+  return isDir ? `${specifier}/` : specifier;
+};
+
+/**
+ * Updates the local targets of import map entries declared in a file.
+ * @param {Record<string, string> | undefined} imports - The import map entries.
+ * @param {(target: string) => string} update - Updates a relative path of the file.
+ * @returns {Record<string, string> | undefined} The entries pointing to the new paths.
+ */
+const updateImports = (
+  imports: Record<string, string> | undefined,
+  update: (target: string) => string,
+): Record<string, string> | undefined =>
+  imports &&
+  Object.fromEntries(
+    Object.entries(imports).map(([key, target]) => [key, update(target)]),
+  );
+
+/**
+ * Updates the local prefixes and targets of import map scopes declared in a file.
+ * @param {Record<string, Record<string, string>> | undefined} scopes - The import map scopes.
+ * @param {(target: string) => string} update - Updates a relative path of the file.
+ * @returns {Record<string, Record<string, string>> | undefined} The scopes pointing to the new paths.
+ */
+const updateScopes = (
+  scopes: Record<string, Record<string, string>> | undefined,
+  update: (target: string) => string,
+): Record<string, Record<string, string>> | undefined =>
+  scopes &&
+  Object.fromEntries(
+    Object.entries(scopes).map(([prefix, imports]) => [
+      update(prefix),
+      updateImports(imports, update)!,
+    ]),
+  );
+
+/**
+ * Creates a FilePatcher that updates the local import map entries, scopes and exports of a
+ * deno.json pointing to moved files.
+ * @param {(cwd: string) => PathMapping} mappingFor - Creates the path mapping for a cwd.
+ * @returns {FilePatcher} The file patcher.
+ */
+const moveDenoJSON = (
+  mappingFor: (cwd: string) => PathMapping,
+): FilePatcher =>
+  jsonc<DenoJSON>(({ content, path }, ctx) => {
+    const mapping = mappingFor(ctx.fs.cwd());
+    const update = updaterFor(path, mapping);
+    const exports = typeof content.exports === "string"
+      ? update(content.exports)
+      : updateImports(content.exports, update);
+    return {
+      path: mapping(path) ?? path,
+      content: {
+        ...content,
+        imports: updateImports(content.imports, update),
+        scopes: updateScopes(content.scopes, update),
+        exports,
+      },
+    };
+  });
+
+/**
+ * Creates a FilePatcher that updates the local entries and scopes of an import map file
+ * pointing to moved files.
+ * @param {(cwd: string) => PathMapping} mappingFor - Creates the path mapping for a cwd.
+ * @returns {FilePatcher} The file patcher.
+ */
+const moveImportMap = (
+  mappingFor: (cwd: string) => PathMapping,
+): FilePatcher =>
+  jsonc<Pick<DenoJSON, "imports" | "scopes">>(({ content, path }, ctx) => {
+    const mapping = mappingFor(ctx.fs.cwd());
+    const update = updaterFor(path, mapping);
+    return {
+      path: mapping(path) ?? path,
+      content: {
+        ...content,
+        imports: updateImports(content.imports, update),
+        scopes: updateScopes(content.scopes, update),
+      },
+    };
+  });
+
+const IMPORT_MAP_FILES = new WeakMap<CodeModContext, Promise<string[]>>();
+
+/**
+ * Returns the import map files referenced by the `importMap` of the deno.json of the cwd
+ * and of its workspace members, reading them on first use.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {Promise<string[]>} The absolute paths of the import map files.
+ */
+const importMapFilesOf = (ctx: CodeModContext): Promise<string[]> => {
+  let files = IMPORT_MAP_FILES.get(ctx);
+  if (!files) {
+    files = (async () => {
+      const cwd = ctx.fs.cwd();
+      const root = await readDenoJSON(ctx.fs, cwd);
+      const dirs = [
+        cwd,
+        ...(root?.content.workspace ?? []).map((member) => join(cwd, member)),
+      ];
+      const paths: string[] = [];
+      for (const dir of dirs) {
+        const denoJSON = dir === cwd ? root : await readDenoJSON(ctx.fs, dir);
+        const importMap = denoJSON?.content.importMap;
+        if (importMap && !URL.canParse(importMap)) {
+          paths.push(join(dir, importMap));
+        }
+      }
+      return paths;
+    })();
+    IMPORT_MAP_FILES.set(ctx, files);
+  }
+  return files;
+};
+
+/**
+ * Creates a CodeModTarget that moves files and updates every reference to them:
+ * relative imports, `export ... from`, dynamic `import()`, import map aliases, the
+ * deno.json import map entries, scopes and exports, and the import map file it references.
+ * @template TContext The type of the CodeModContext.
+ * @param {(cwd: string) => PathMapping} mappingFor - Creates the path mapping for a cwd.
+ * @param {RegExp[]} match - Matches the files that are moved.
+ * @returns {CodeModTarget<TContext>} A CodeModTarget object.
+ */
+export const moveFiles = <
+  TContext extends CodeModContext = CodeModContext,
+>(
+  mappingFor: (cwd: string) => PathMapping,
+  match: RegExp[],
+): CodeModTarget<TContext> => {
+  const sourceFile = moveSourceFile(mappingFor);
+  const denoJSON = moveDenoJSON(mappingFor);
+  const importMap = moveImportMap(mappingFor);
+  return {
+    options: {
+      // every JSON file, as the import map file can have any name.
+      match: [SOURCE_FILE, JSON_FILE, ...match],
+    },
+    apply: async (txt, ctx) => {
+      // importers resolve through the import map as it was before its files are patched.
+      await importMapOf(ctx);
+      if (SOURCE_FILE.test(txt.path)) {
+        return sourceFile(txt, ctx);
+      }
+      if (DENO_JSON.test(txt.path)) {
+        return denoJSON(txt, ctx);
+      }
+      if ((await importMapFilesOf(ctx)).includes(txt.path)) {
+        return importMap(txt, ctx);
+      }
+      const path = mappingFor(ctx.fs.cwd())(txt.path);
+      return { path: path ?? txt.path, content: txt.content };
+    },
+  };
+};
+
+/**
+ * Creates a CodeModTarget that moves a file and updates every import of it.
+ * @template TContext The type of the CodeModContext.
+ * @param {string} from - The file path, relative to the cwd.
+ * @param {string} to - The new file path, relative to the cwd.
+ * @returns {CodeModTarget<TContext>} A CodeModTarget object.
+ */
+export const moveFile = <
+  TContext extends CodeModContext = CodeModContext,
+>(from: string, to: string): CodeModTarget<TContext> => {
+  const [source, target] = [normalized(from), normalized(to)];
+  return moveFiles(
+    (cwd) => (path) =>
+      path === join(cwd, source) ? join(cwd, target) : undefined,
+    [new RegExp(`${escape(source)}$`)],
+  );
+};
+
+/**
+ * Creates a CodeModTarget that moves a directory and updates every import of its files.
+ * @template TContext The type of the CodeModContext.
+ * @param {string} from - The directory path, relative to the cwd, with or without a trailing slash.
+ * @param {string} to - The new directory path, relative to the cwd, with or without a trailing slash.
+ * @returns {CodeModTarget<TContext>} A CodeModTarget object.
+ */
+export const moveDirectory = <
+  TContext extends CodeModContext = CodeModContext,
+>(from: string, to: string): CodeModTarget<TContext> => {
+  const [source, target] = [normalized(from), normalized(to)];
+  return moveFiles(
+    (cwd) => {
+      const dir = join(cwd, source);
+      return (path) => {
+        if (path === dir) {
+          return join(cwd, target);
+        }
+        return path.startsWith(`${dir}${SEPARATOR}`)
+          ? join(cwd, target, path.slice(dir.length))
+          : undefined;
+      };
+    },
+    [new RegExp(`${escape(source)}${escape(SEPARATOR)}`)],
+  );
+};
@@ -0,0 +1,101 @@
+import { moveDirectory, moveFile } from "./move.ts";
+import { testCodeMod } from "./testing.ts";
+
+const FOO = `export const Foo = () => null;\n`;
+
+Deno.test("moveFile updates relative imports of the file and of its importers", async () => {
+  await testCodeMod({
+    input: {
+      "sections/Foo.tsx": `import { Bar } from "./Bar.tsx";\n${FOO}`,
+      "sections/Bar.tsx": `export const Bar = () => null;\n`,
+      "routes/index.tsx": `import { Foo } from "../sections/Foo.tsx";\n`,
+    },
+    targets: [moveFile("sections/Foo.tsx", "sections/Foo/Foo.tsx")],
+    expected: {
+      "sections/Foo/Foo.tsx": `import { Bar } from "../Bar.tsx";\n${FOO}`,
+      "sections/Bar.tsx": `export const Bar = () => null;\n`,
+      "routes/index.tsx": `import { Foo } from "../sections/Foo/Foo.tsx";\n`,
+    },
+  });
+});
+
+Deno.test("moveFile updates the import map file referenced by deno.json", async () => {
+  await testCodeMod({
+    input: {
+      "deno.json": `{ "importMap": "./import_map.json" }`,
+      "import_map.json": `{ "imports": { "$foo": "./sections/Foo.tsx" } }`,
+      "sections/Foo.tsx": FOO,
+      "routes/index.tsx": `import { Foo } from "$foo";\n`,
+    },
+    targets: [moveFile("sections/Foo.tsx", "sections/Foo/Foo.tsx")],
+    expected: {
+      "deno.json": `{ "importMap": "./import_map.json" }`,
+      "import_map.json": `{ "imports": { "$foo": "./sections/Foo/Foo.tsx" } }`,
+      "sections/Foo/Foo.tsx": FOO,
+      "routes/index.tsx": `import { Foo } from "$foo";\n`,
+    },
+  });
+});
+
+Deno.test("moveDirectory updates the scopes of deno.json", async () => {
+  await testCodeMod({
+    input: {
+      "deno.json":
+        `{ "scopes": { "./legacy/": { "$foo": "./legacy/Foo.tsx" } } }`,
+      "legacy/Foo.tsx": FOO,
+      "legacy/index.tsx": `import { Foo } from "$foo";\n`,
+    },
+    targets: [moveDirectory("legacy", "sections")],
+    expected: {
+      "deno.json": [
+        `{`,
+        `  "scopes": {`,
+        `    "./sections/": {`,
+        `      "$foo": "./sections/Foo.tsx"`,
+        `    }`,
+        `  }`,
+        `}`,
+      ].join("\n"),
+      "sections/Foo.tsx": FOO,
+      "sections/index.tsx": `import { Foo } from "$foo";\n`,
+    },
+  });
+});
+
+Deno.test("moveFile updates dynamic imports and re-exports", async () => {
+  await testCodeMod({
+    input: {
+      "sections/Foo.tsx": `export { Bar } from "./Bar.tsx";\n${FOO}`,
+      "sections/Bar.tsx": `export const Bar = () => null;\n`,
+      "routes/index.tsx": [
+        `export * from "../sections/Foo.tsx";`,
+        `export const load = () => import("../sections/Foo.tsx");`,
+        "",
+      ].join("\n"),
+    },
+    targets: [moveFile("sections/Foo.tsx", "sections/Foo/Foo.tsx")],
+    expected: {
+      "sections/Foo/Foo.tsx": `export { Bar } from "../Bar.tsx";\n${FOO}`,
+      "sections/Bar.tsx": `export const Bar = () => null;\n`,
+      "routes/index.tsx": [
+        `export * from "../sections/Foo/Foo.tsx";`,
+        `export const load = () => import("../sections/Foo/Foo.tsx");`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("moveDirectory accepts paths with a trailing slash", async () => {
+  await testCodeMod({
+    input: {
+      "legacy/Foo.tsx": FOO,
+      "routes/index.tsx": `import { Foo } from "../legacy/Foo.tsx";\n`,
+    },
+    targets: [moveDirectory("legacy/", "sections/")],
+    expected: {
+      "sections/Foo.tsx": FOO,
+      "routes/index.tsx": `import { Foo } from "../sections/Foo.tsx";\n`,
+    },
+  });
+});
@@ -18,12 +18,13 @@ function eligibleLatestVersion(versions: string[], allowPre = false) {
 export const pkgInfo = async (
   importUrl: string,
   allowPre = false,
+  versionsOf: (url: RegistryUrl) => Promise<string[]> = (url) => url.all(),
 ): Promise<PackageInfo | undefined> => {
   const url = lookup(importUrl, REGISTRIES);
 
   if (!url) return;
 
-  const versions = await url.all();
+  const versions = await versionsOf(url);
   const current = url.version();
   const latest = eligibleLatestVersion(versions, allowPre);
   return {
@@ -0,0 +1,195 @@
+import { Project, type SourceFile, ts } from "npm:ts-morph@^21.0";
+import type { CodeModContext, TextFile } from "./codemod.ts";
+import { readDenoJSON } from "./denoJSON.ts";
+import { ALWAYS_SKIPPED } from "./ignore.ts";
+
+/**
+ * Files that are loaded into the shared project.
+ */
+const SOURCE_FILES = {
+  match: [/\.(m?[jt]sx?)$/],
+  skip: ALWAYS_SKIPPED,
+  includeDirs: false,
+};
+
+/**
+ * A project shared by a codemod run.
+ */
+interface SharedProject {
+  project: Project;
+  // the content each source file had on the (overlay) fs when it was loaded.
+  loaded: Map<string, string>;
+}
+
+const PROJECTS = new WeakMap<CodeModContext, Promise<SharedProject>>();
+
+/**
+ * Builds the compiler options of the project based on deno.json.
+ * @param {Record<string, unknown>} compilerOptions - The deno.json compilerOptions.
+ * @param {Record<string, string>} imports - The deno.json import map.
+ * @param {string} cwd - The project root.
+ * @returns {ts.CompilerOptions} The TypeScript compiler options.
+ */
+const compilerOptionsFor = (
+  compilerOptions: Record<string, unknown>,
+  imports: Record<string, string>,
+  cwd: string,
+): ts.CompilerOptions => {
+  const { options } = ts.convertCompilerOptionsFromJson({
+    ...compilerOptions,
+    // deno specific jsx transform, type-wise it behaves as react-jsx.
+    jsx: compilerOptions.jsx === "precompile"
+      ? "react-jsx"
+      : compilerOptions.jsx,
+  }, cwd);
+
+  // local import map entries are resolved as path aliases.
+  const paths: Record<string, string[]> = {};
+  for (const [specifier, target] of Object.entries(imports)) {
+    if (!target.startsWith("./") && !target.startsWith("../")) {
+      continue;
+    }
+    if (specifier.endsWith("/")) {
+      paths[`${specifier}*`] = [`${target}*`];
+    } else {
+      paths[specifier] = [target];
+    }
+  }
+
+  return {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowJs: true,
+    allowImportingTsExtensions: true,
+    noEmit: true,
+    ...options,
+    baseUrl: cwd,
+    paths,
+  };
+};
+
+/**
+ * Creates a project with every source file under the cwd.
+ * @param {CodeModContext} ctx - The code modification context.
+ * @returns {Promise<SharedProject>} The project and the loaded contents.
+ */
+const createProject = async (ctx: CodeModContext): Promise<SharedProject> => {
+  const cwd = ctx.fs.cwd();
+  const denoJSON = await readDenoJSON(ctx.fs, cwd);
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: compilerOptionsFor(
+      denoJSON?.content.compilerOptions ?? {},
+      denoJSON?.content.imports ?? {},
+      cwd,
+    ),
+  });
+  const loaded = new Map<string, string>();
+
+  for await (const file of ctx.fs.walk(cwd, SOURCE_FILES)) {
+    if (file.isFile) {
+      const content = await ctx.fs.readTextFile(file.path);
+      project.createSourceFile(file.path, content, { overwrite: true });
+      loaded.set(file.path, content);
+    }
+  }
+  return { project, loaded };
+};
+
+/**
+ * Returns the shared project of a codemod run, creating it on first use.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {Promise<SharedProject>} The shared project.
+ */
+const sharedProject = (ctx: CodeModContext): Promise<SharedProject> => {
+  let shared = PROJECTS.get(ctx);
+  if (!shared) {
+    shared = createProject(ctx);
+    PROJECTS.set(ctx, shared);
+  }
+  return shared;
+};
+
+/**
+ * Returns the ts-morph project shared by every TypeScript file of a codemod run.
+ * The project is configured from the deno.json compilerOptions and import map.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {Promise<Project>} The shared project.
+ */
+export const tsProject = async (ctx: CodeModContext): Promise<Project> => {
+  return (await sharedProject(ctx)).project;
+};
+
+/**
+ * Returns the source file of the shared project for a file of the run.
+ * Edits made through the project (e.g. cross-file renames) are kept, unless the
+ * file content was changed outside the project.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @param {TextFile} txt - The file as seen by the current target.
+ * @returns {Promise<SourceFile>} The source file.
+ */
+export const tsSourceFile = async (
+  ctx: CodeModContext,
+  { path, content }: TextFile,
+): Promise<SourceFile> => {
+  const { project, loaded } = await sharedProject(ctx);
+  const sourceFile = project.getSourceFile(path);
+  if (sourceFile && loaded.get(path) === content) {
+    return sourceFile;
+  }
+  loaded.set(path, content);
+  return project.createSourceFile(path, content, { overwrite: true });
+};
+
+/**
+ * Records the content written for a file of the shared project.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @param {string} path - The file path.
+ * @param {string | undefined} content - The written content, or undefined when the file was removed.
+ */
+export const syncTsSourceFile = async (
+  ctx: CodeModContext,
+  path: string,
+  content: string | undefined,
+): Promise<void> => {
+  const { project, loaded } = await sharedProject(ctx);
+  const sourceFile = project.getSourceFile(path);
+  if (content === undefined) {
+    sourceFile && project.removeSourceFile(sourceFile);
+    loaded.delete(path);
+    return;
+  }
+  if (sourceFile?.getFullText() !== content) {
+    project.createSourceFile(path, content, { overwrite: true });
+  }
+  loaded.set(path, content);
+};
+
+/**
+ * Collects the files changed through the shared project that were not written yet,
+ * e.g. the importers of a renamed symbol. Does nothing if the run has no project.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {Promise<TextFile[]>} The changed files with their new content.
+ */
+export const flushTsProject = async (
+  ctx: CodeModContext,
+): Promise<TextFile[]> => {
+  const shared = PROJECTS.get(ctx);
+  if (!shared) {
+    return [];
+  }
+  const { project, loaded } = await shared;
+  const changed: TextFile[] = [];
+  for (const sourceFile of project.getSourceFiles()) {
+    const path = sourceFile.getFilePath();
+    const content = loaded.get(path);
+    if (content !== undefined && sourceFile.getFullText() !== content) {
+      const printed = sourceFile.print();
+      sourceFile.replaceWithText(printed);
+      loaded.set(path, printed);
+      changed.push({ path, content: printed });
+    }
+  }
+  return changed;
+};
@@ -0,0 +1,108 @@
+import { assert, assertEquals } from "@std/assert";
+import { ts } from "./codemod.ts";
+import { inMemoryFS } from "./memfs.ts";
+import {
+  flushTsProject,
+  syncTsSourceFile,
+  tsProject,
+  tsSourceFile,
+} from "./project.ts";
+import { testCodeMod } from "./testing.ts";
+
+const B = `export const foo = 1;\n`;
+const A = `import { foo } from "./b.ts";\nconsole.log(foo);\n`;
+
+Deno.test("tsProject loads the source files of the cwd with the import map as paths", async () => {
+  const ctx = {
+    fs: inMemoryFS({
+      "deno.json": JSON.stringify({ imports: { "@/": "./src/" } }),
+      "a.ts": `import { foo } from "@/b.ts";\n`,
+      "src/b.ts": B,
+      "node_modules/c/index.ts": "",
+    }),
+  };
+  const project = await tsProject(ctx);
+  assertEquals(
+    project.getSourceFiles().map((sourceFile) => sourceFile.getFilePath()),
+    ["/a.ts", "/src/b.ts"],
+  );
+  assertEquals(
+    project.getSourceFileOrThrow("/a.ts").getImportDeclarations()[0]
+      .getModuleSpecifierSourceFile()?.getFilePath(),
+    "/src/b.ts",
+  );
+  // the project is shared by the run.
+  assert(await tsProject(ctx) === project);
+});
+
+Deno.test("tsSourceFile keeps the edits made through the project unless the content changed", async () => {
+  const ctx = { fs: inMemoryFS({ "a.ts": A, "b.ts": B }) };
+  const b = await tsSourceFile(ctx, { path: "/b.ts", content: B });
+  b.getVariableDeclarationOrThrow("foo").rename("bar");
+
+  const a = await tsSourceFile(ctx, { path: "/a.ts", content: A });
+  assertEquals(
+    a.getFullText(),
+    `import { bar } from "./b.ts";\nconsole.log(bar);\n`,
+  );
+  const other = `export const baz = 1;\n`;
+  assertEquals(
+    (await tsSourceFile(ctx, { path: "/b.ts", content: other })).getFullText(),
+    other,
+  );
+});
+
+Deno.test("flushTsProject returns the files changed through the project once", async () => {
+  const ctx = { fs: inMemoryFS({ "a.ts": A, "b.ts": B }) };
+  assertEquals(await flushTsProject(ctx), []);
+
+  const b = await tsSourceFile(ctx, { path: "/b.ts", content: B });
+  b.getVariableDeclarationOrThrow("foo").rename("bar");
+  assertEquals(await flushTsProject(ctx), [
+    {
+      path: "/a.ts",
+      content: `import { bar } from "./b.ts";\nconsole.log(bar);\n`,
+    },
+    { path: "/b.ts", content: `export const bar = 1;\n` },
+  ]);
+  assertEquals(await flushTsProject(ctx), []);
+});
+
+Deno.test("syncTsSourceFile keeps the project in step with the files written by patchers", async () => {
+  const ctx = { fs: inMemoryFS({ "a.ts": A, "b.ts": B }) };
+  const project = await tsProject(ctx);
+  const written = A.replace("console.log", "console.info");
+  await syncTsSourceFile(ctx, "/a.ts", written);
+  assertEquals(project.getSourceFileOrThrow("/a.ts").getFullText(), written);
+  // a written file is not changed through the project.
+  assertEquals(await flushTsProject(ctx), []);
+
+  await syncTsSourceFile(ctx, "/b.ts", undefined);
+  assertEquals(project.getSourceFile("/b.ts"), undefined);
+});
+
+Deno.test("codeMod keeps the changes of other patchers in the files changed through the project", async () => {
+  await testCodeMod({
+    input: { "a.ts": A, "b.ts": B },
+    targets: [
+      {
+        include: ["a.ts"],
+        apply: ({ path, content }) => ({
+          path,
+          content: content.replace("console.log", "console.info"),
+        }),
+      },
+      {
+        include: ["b.ts"],
+        apply: ts(({ content }) => {
+          content.getVariableDeclarationOrThrow("foo").rename("bar");
+          return { content };
+        }),
+      },
+    ],
+    expected: {
+      "a.ts": `import { bar } from "./b.ts";\nconsole.info(bar);\n`,
+      "b.ts": `export const bar = 1;\n`,
+    },
+  });
+});
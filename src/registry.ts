@@ -32,6 +32,10 @@ export function lookup(url: string, registries: RegistryCtor[] = REGISTRIES):
  */
 export interface RegistryUrl {
   url: string;
+  /**
+   * A stable identifier of the registry, e.g. `Jsr`, recorded in reports.
+   */
+  id: string;
   /**
    * Retrieves all available versions of the URL.
    * @returns {Promise<string[]>} - A promise that resolves to an array of versions.
@@ -163,6 +167,7 @@ async function githubReleases(
  */
 export class DenoLand implements RegistryUrl {
   url: string;
+  id = "DenoLand";
 
   constructor(url: string) {
     this.url = url;
@@ -203,8 +208,10 @@ export class DenoLand implements RegistryUrl {
       DL_CACHE.set(name, json.versions);
       return json.versions;
     } catch (err) {
-      console.error(`error getting versions for ${name}`);
-      throw err;
+      throw new Error(
+        `error getting versions for ${name}: ${(err as Error).message}`,
+        { cause: err },
+      );
     }
   }
 
@@ -246,6 +253,7 @@ const JSR_CACHE: Map<string, string[]> = new Map<string, string[]>();
  */
 export class Jsr implements RegistryUrl {
   url: string;
+  id = "Jsr";
   parseRegex = /^jsr:(\/?\@[^/]+\/[^@/]+|\/?[^@/]+)(?:\@([^/]+))?(.*)/;
 
   constructor(url: string) {
@@ -287,8 +295,10 @@ export class Jsr implements RegistryUrl {
       JSR_CACHE.set(name, versions);
       return versions;
     } catch (err) {
-      console.error(`error getting versions for ${name}`);
-      throw err;
+      throw new Error(
+        `error getting versions for ${name}: ${(err as Error).message}`,
+        { cause: err },
+      );
     }
   }
 
@@ -350,6 +360,7 @@ const NPM_CACHE: Map<string, string[]> = new Map<string, string[]>();
  */
 export class Npm implements RegistryUrl {
   url: string;
+  id = "Npm";
   parseRegex = /^npm:(\@[^/]+\/[^@/]+|[^@/]+)(?:\@([^/]+))?(.*)/;
 
   constructor(url: string) {
@@ -389,8 +400,10 @@ export class Npm implements RegistryUrl {
       NPM_CACHE.set(name, versions);
       return versions;
     } catch (err) {
-      console.error(`error getting versions for ${name}`);
-      throw err;
+      throw new Error(
+        `error getting versions for ${name}: ${(err as Error).message}`,
+        { cause: err },
+      );
     }
   }
 
@@ -475,6 +488,7 @@ function defaultScopeAt(that: RegistryUrl, version: string): string {
 
 export class UnpkgScope implements RegistryUrl {
   url: string;
+  id = "UnpkgScope";
 
   parts(): PackageInfo {
     return defaultInfo(this);
@@ -503,6 +517,7 @@ export class UnpkgScope implements RegistryUrl {
 
 export class Unpkg implements RegistryUrl {
   url: string;
+  id = "Unpkg";
 
   name(): string {
     return defaultName(this);
@@ -530,6 +545,7 @@ export class Unpkg implements RegistryUrl {
 
 export class Jspm implements RegistryUrl {
   url: string;
+  id = "Jspm";
 
   name(): string {
     return defaultName(this);
@@ -557,6 +573,7 @@ export class Jspm implements RegistryUrl {
 
 export class Denopkg implements RegistryUrl {
   url: string;
+  id = "Denopkg";
 
   owner(): string {
     return this.url.split("/")[3];
@@ -588,6 +605,7 @@ export class Denopkg implements RegistryUrl {
 
 export class PaxDenoDev implements RegistryUrl {
   url: string;
+  id = "PaxDenoDev";
 
   owner(): string {
     return this.url.split("/")[3];
@@ -619,6 +637,7 @@ export class PaxDenoDev implements RegistryUrl {
 
 export class PikaScope implements RegistryUrl {
   url: string;
+  id = "PikaScope";
 
   parts(): PackageInfo {
     return defaultInfo(this);
@@ -648,6 +667,7 @@ export class PikaScope implements RegistryUrl {
 
 export class Pika implements RegistryUrl {
   url: string;
+  id = "Pika";
 
   name(): string {
     return defaultName(this);
@@ -675,6 +695,7 @@ export class Pika implements RegistryUrl {
 
 export class SkypackScope implements RegistryUrl {
   url: string;
+  id = "SkypackScope";
 
   parts(): PackageInfo {
     return defaultInfo(this);
@@ -704,6 +725,7 @@ export class SkypackScope implements RegistryUrl {
 
 export class Skypack implements RegistryUrl {
   url: string;
+  id = "Skypack";
 
   name(): string {
     return defaultName(this);
@@ -731,6 +753,7 @@ export class Skypack implements RegistryUrl {
 
 export class EsmShScope implements RegistryUrl {
   url: string;
+  id = "EsmShScope";
 
   parts(): PackageInfo {
     return defaultInfo(this);
@@ -759,6 +782,7 @@ export class EsmShScope implements RegistryUrl {
 
 export class EsmSh implements RegistryUrl {
   url: string;
+  id = "EsmSh";
 
   name(): string {
     return defaultName(this);
@@ -786,6 +810,7 @@ export class EsmSh implements RegistryUrl {
 
 export class GithubRaw implements RegistryUrl {
   url: string;
+  id = "GithubRaw";
 
   constructor(url: string) {
     this.url = url;
@@ -816,6 +841,7 @@ export class GithubRaw implements RegistryUrl {
 
 export class JsDelivr implements RegistryUrl {
   url: string;
+  id = "JsDelivr";
 
   constructor(url: string) {
     this.url = url;
@@ -901,6 +927,7 @@ async function gitlabReleases(
 
 export class GitlabRaw implements RegistryUrl {
   url: string;
+  id = "GitlabRaw";
 
   constructor(url: string) {
     this.url = url;
@@ -957,6 +984,7 @@ async function nestlandReleases(
 
 export class NestLand implements RegistryUrl {
   url: string;
+  id = "NestLand";
 
   constructor(url: string) {
     this.url = url;
@@ -0,0 +1,152 @@
+import { relative, SEPARATOR } from "@std/path";
+import type {
+  CodeModContext,
+  CodeModResult,
+  FileChangeOperation,
+} from "./codemod.ts";
+import { lineCounts } from "./diff.ts";
+import type { DependencyUpgrade } from "./update.lib.ts";
+
+/**
+ * Describes a changed file in a report.
+ */
+export interface FileReport {
+  operation: FileChangeOperation;
+  path: string;
+  // the original path, only set for renames.
+  from?: string;
+  added: number;
+  removed: number;
+}
+
+/**
+ * Describes a dependency upgraded by a codemod.
+ */
+export interface DependencyUpgradeReport extends DependencyUpgrade {
+  // the deno.json or import map declaring the dependency.
+  path: string;
+}
+
+/**
+ * Describes the places of a file touched by a patcher, e.g. the matches of a text replacement.
+ */
+export interface MatchReport {
+  path: string;
+  // describes the patcher, e.g. its pattern.
+  patcher: string;
+  count: number;
+  // 1-based positions of the touched places.
+  locations: { line: number; column: number }[];
+}
+
+/**
+ * Describes something a codemod left untouched on purpose, e.g. a dependency without semver version.
+ */
+export interface SkippedItem {
+  path?: string;
+  // what was skipped, e.g. a package or an identifier.
+  item: string;
+  reason: string;
+}
+
+/**
+ * Describes an error raised while running a codemod.
+ */
+export interface ReportedError {
+  path?: string;
+  // the target that failed.
+  target?: string;
+  message: string;
+}
+
+/**
+ * Represents a machine-readable report of a codemod run, paths are relative to the cwd.
+ */
+export interface CodeModReport {
+  name?: string;
+  description?: string;
+  dryRun: boolean;
+  applied: boolean;
+  files: FileReport[];
+  upgrades: DependencyUpgradeReport[];
+  matches: MatchReport[];
+  skipped: SkippedItem[];
+  errors: ReportedError[];
+  conflicts: CodeModResult["conflicts"];
+}
+
+/**
+ * Collects what happened during a codemod run besides the file changes, paths are absolute.
+ */
+export interface ReportCollector {
+  upgrades: DependencyUpgradeReport[];
+  matches: MatchReport[];
+  skipped: SkippedItem[];
+  errors: ReportedError[];
+}
+
+const COLLECTORS = new WeakMap<CodeModContext, ReportCollector>();
+
+/**
+ * Returns the report collector of a codemod run, patchers use it to report upgrades, matches and skipped items.
+ * @param {CodeModContext} ctx - The code modification context of the run.
+ * @returns {ReportCollector} The report collector.
+ */
+export const reportOf = (ctx: CodeModContext): ReportCollector => {
+  let collector = COLLECTORS.get(ctx);
+  if (!collector) {
+    collector = { upgrades: [], matches: [], skipped: [], errors: [] };
+    COLLECTORS.set(ctx, collector);
+  }
+  return collector;
+};
+
+/**
+ * Builds the report of a codemod run.
+ * @param {Partial<CodeModResult>} result - The result of the run, partial if it failed.
+ * @param {ReportCollector} collector - What was collected during the run.
+ * @param {string} cwd - The current working directory, paths are relative to it.
+ * @returns {CodeModReport} The report.
+ */
+export const buildReport = (
+  {
+    name,
+    description,
+    dryRun = false,
+    applied = false,
+    changes = [],
+    conflicts = [],
+  }: Partial<CodeModResult>,
+  { upgrades, matches, skipped, errors }: ReportCollector,
+  cwd: string,
+): CodeModReport => {
+  const pretty = (path: string) =>
+    relative(cwd, path).replaceAll(SEPARATOR, "/");
+  return {
+    name,
+    description,
+    dryRun,
+    applied,
+    files: changes.map(({ operation, path, from, before, after }) => ({
+      operation,
+      path: pretty(path),
+      ...from ? { from: pretty(from) } : {},
+      ...lineCounts(before ?? "", after ?? ""),
+    })),
+    upgrades: upgrades.map((upgrade) => ({
+      ...upgrade,
+      path: pretty(upgrade.path),
+    })),
+    matches: matches.map((match) => ({ ...match, path: pretty(match.path) })),
+    skipped: skipped.map((item) =>
+      item.path ? { ...item, path: pretty(item.path) } : item
+    ),
+    errors: errors.map((error) =>
+      error.path ? { ...error, path: pretty(error.path) } : error
+    ),
+    conflicts: conflicts.map((conflict) => ({
+      ...conflict,
+      path: pretty(conflict.path),
+    })),
+  };
+};
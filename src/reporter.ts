@@ -0,0 +1,152 @@
+import {
+  brightGreen,
+  brightRed,
+  brightYellow,
+  gray,
+  yellow,
+} from "@std/fmt/colors";
+import type { CodeModContext, FileChangeOperation } from "./codemod.ts";
+import type { DependencyUpgradeReport, SkippedItem } from "./report.ts";
+
+/**
+ * Represents a line of a diff, added, removed or unchanged.
+ */
+export interface DiffLine {
+  added?: boolean;
+  removed?: boolean;
+  // the lines, with their line breaks.
+  value: string;
+}
+
+/**
+ * Describes something that happened during a codemod run, paths are relative to the cwd.
+ */
+export type CodeModEvent =
+  // a file will be changed.
+  | {
+    type: "file-planned";
+    operation: FileChangeOperation;
+    path: string;
+    from?: string;
+  }
+  // something was left untouched on purpose, e.g. an outdated dependency or a renamed import.
+  | ({ type: "file-skipped" } & SkippedItem)
+  // the changes of a file, before they are confirmed.
+  | { type: "diff"; path: string; lines: DiffLine[] }
+  // a dependency was upgraded.
+  | ({ type: "dependency-upgraded" } & DependencyUpgradeReport)
+  // the versions of a dependency could not be fetched from its registry.
+  | { type: "registry-error"; path?: string; package: string; message: string }
+  // the changes are being written.
+  | { type: "applying"; name?: string; description?: string }
+  // any other output, e.g. progress or failures.
+  | { type: "message"; level: "info" | "warn" | "error"; message: string };
+
+/**
+ * Asks whether the planned changes should be applied.
+ */
+export interface ConfirmationRequest {
+  name?: string;
+  description?: string;
+  message: string;
+}
+
+/**
+ * Asks what to do with the changes of a file while they are reviewed file by file.
+ */
+export interface ReviewRequest {
+  // the file path, relative to the cwd.
+  path: string;
+  // the position of the file among the reviewed files, starting at 1.
+  index: number;
+  total: number;
+  // the accepted answers, e.g. `y` to apply the changes.
+  choices: string[];
+  message: string;
+}
+
+/**
+ * Receives the output of a codemod run, e.g. to render it in a terminal, an editor or a CI log.
+ */
+export interface Reporter {
+  // receives every event of the run.
+  report: (event: CodeModEvent) => void;
+  // answers a confirmation request, true to apply the changes.
+  confirm: (request: ConfirmationRequest) => boolean | Promise<boolean>;
+  // answers a review request with one of its choices, undefined when there is no answer.
+  review: (
+    request: ReviewRequest,
+  ) => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Formats a path relative to the cwd for the terminal.
+ * @param {string} path - The relative path.
+ * @returns {string} The path, starting with `./` when it is inside the cwd.
+ */
+const pretty = (path: string): string =>
+  path.startsWith(".") ? path : `./${path}`;
+
+/**
+ * The default reporter, it prints the events with colors and asks through `confirm()` and
+ * `prompt()`.
+ */
+export const consoleReporter: Reporter = {
+  report: (event) => {
+    switch (event.type) {
+      case "file-planned":
+        if (event.operation === "delete") {
+          console.log(`🚨 ${brightRed(pretty(event.path))} will be deleted.`);
+        } else if (event.operation === "create") {
+          console.log(gray(`✅ ${pretty(event.path)} (new file)`));
+        } else {
+          console.log(
+            `⚠️  ${brightYellow(pretty(event.from ?? event.path))} -> ${
+              brightYellow(pretty(event.path))
+            }`,
+          );
+        }
+        break;
+      case "file-skipped":
+        console.warn(
+          yellow(`${event.path ? `${event.path}: ` : ""}${event.reason}`),
+        );
+        break;
+      case "diff":
+        for (const { added, removed, value } of event.lines) {
+          const color = added ? brightGreen : removed ? brightRed : gray;
+          // console.log adds the last line break.
+          console.log(color(value.replace(/\n$/, "")));
+        }
+        break;
+      case "dependency-upgraded":
+        console.info(
+          gray(`${event.path}:`),
+          `upgrading ${event.package} ${event.from} -> ${event.to}.`,
+        );
+        break;
+      case "registry-error":
+        console.error(event.message);
+        break;
+      case "applying":
+        event.name && console.log(`Applying patch ${event.name}`);
+        break;
+      case "message":
+        console[event.level](event.message);
+        break;
+    }
+  },
+  confirm: ({ description, message }) => {
+    description && console.log(`These changes ${description}`);
+    return confirm(message);
+  },
+  review: ({ message }) => prompt(message) ?? undefined,
+};
+
+/**
+ * Returns the reporter of a codemod context.
+ * @param {CodeModContext} ctx - The codemod context.
+ * @returns {Reporter} The context reporter, or the console reporter if it has none.
+ */
+export const reporterOf = (ctx: CodeModContext): Reporter =>
+  ctx.reporter ?? consoleReporter;
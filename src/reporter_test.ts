@@ -0,0 +1,138 @@
+import { assertEquals } from "@std/assert";
+import { stripAnsiCode } from "@std/fmt/colors";
+import { codeMod } from "./codemod.ts";
+import { inMemoryFS } from "./memfs.ts";
+import {
+  type CodeModEvent,
+  type ConfirmationRequest,
+  consoleReporter,
+} from "./reporter.ts";
+
+/**
+ * Runs a function while recording what it prints to the console, without colors.
+ * @param {() => void} fn - The function to run.
+ * @returns {string[]} The printed lines, prefixed with the console method.
+ */
+const printed = (fn: () => void): string[] => {
+  const lines: string[] = [];
+  const methods = ["log", "info", "warn", "error"] as const;
+  const originals = methods.map((method) => console[method]);
+  for (const method of methods) {
+    console[method] = (...args: unknown[]) => {
+      lines.push(`${method} ${stripAnsiCode(args.join(" "))}`);
+    };
+  }
+  try {
+    fn();
+  } finally {
+    methods.forEach((method, i) => console[method] = originals[i]);
+  }
+  return lines;
+};
+
+Deno.test("consoleReporter prints each event with the matching console method", () => {
+  const events: CodeModEvent[] = [
+    { type: "file-planned", operation: "modify", path: "a.ts" },
+    { type: "file-planned", operation: "rename", path: "b.ts", from: "a.ts" },
+    { type: "file-planned", operation: "create", path: "c.ts" },
+    { type: "file-planned", operation: "delete", path: "../d.ts" },
+    {
+      type: "diff",
+      path: "a.ts",
+      lines: [{ removed: true, value: "-a\n" }, { added: true, value: "+b\n" }],
+    },
+    {
+      type: "file-skipped",
+      path: "deno.json",
+      item: "foo",
+      reason: "foo is pinned",
+    },
+    {
+      type: "dependency-upgraded",
+      path: "deno.json",
+      package: "foo",
+      from: "1.0.0",
+      to: "2.0.0",
+      registry: "Npm",
+    },
+    { type: "registry-error", package: "foo", message: "foo: not found" },
+    { type: "applying", name: "upgrade" },
+    { type: "applying" },
+    { type: "message", level: "warn", message: "careful" },
+  ];
+  assertEquals(
+    printed(() => events.forEach((event) => consoleReporter.report(event))),
+    [
+      "log ⚠️  ./a.ts -> ./a.ts",
+      "log ⚠️  ./a.ts -> ./b.ts",
+      "log ✅ ./c.ts (new file)",
+      "log 🚨 ../d.ts will be deleted.",
+      "log -a",
+      "log +b",
+      "warn deno.json: foo is pinned",
+      "info deno.json: upgrading foo 1.0.0 -> 2.0.0.",
+      "error foo: not found",
+      "log Applying patch upgrade",
+      "warn careful",
+    ],
+  );
+});
+
+Deno.test("codeMod reports the planned changes and their diff before asking for confirmation", async () => {
+  const fs = inMemoryFS({ "a.ts": "a\n", "b.ts": "b\n" });
+  const events: CodeModEvent[] = [];
+  const requests: ConfirmationRequest[] = [];
+  const run = (answer: boolean) =>
+    codeMod({
+      name: "upper",
+      targets: [{
+        apply: ({ path, content }) =>
+          path === "/b.ts"
+            ? { deleted: true }
+            : { path, content: content.toUpperCase() },
+      }],
+      context: {
+        fs,
+        formatters: {},
+        reporter: {
+          report: (event) => events.push(event),
+          confirm: (request) => {
+            requests.push(request);
+            return answer;
+          },
+          review: () => undefined,
+        },
+      },
+      yPrompt: true,
+      journal: false,
+    });
+
+  assertEquals((await run(false)).applied, false);
+  assertEquals(
+    events.map((event) =>
+      event.type === "file-planned"
+        ? `${event.type} ${event.operation} ${event.path}`
+        : event.type === "diff"
+        ? `${event.type} ${event.path} ${
+          event.lines.map(({ value }) => value.trim()).join(" ")
+        }`
+        : event.type
+    ),
+    ["file-planned modify a.ts", "diff a.ts a A", "file-planned delete b.ts"],
+  );
+  assertEquals(requests, [{
+    name: "upper",
+    description: undefined,
+    message: "Do you want to proceed?",
+  }]);
+  assertEquals(fs.snapshot(), { "a.ts": "a\n", "b.ts": "b\n" });
+
+  events.length = 0;
+  assertEquals((await run(true)).applied, true);
+  assertEquals(events.at(-1), {
+    type: "applying",
+    name: "upper",
+    description: undefined,
+  });
+  assertEquals(fs.snapshot(), { "a.ts": "A\n" });
+});
@@ -0,0 +1,190 @@
+import { extname, relative, SEPARATOR } from "@std/path";
+import type { FileMod } from "./codemod.ts";
+import { unifiedDiff } from "./diff.ts";
+import {
+  type CodeModEvent,
+  consoleReporter,
+  type DiffLine,
+  type Reporter,
+} from "./reporter.ts";
+
+/**
+ * The number of diff lines shown before asking about a file, `d` shows the rest.
+ */
+const PREVIEW_LINES = 40;
+
+type PlannedEvent = Extract<CodeModEvent, { type: "file-planned" }>;
+
+const HELP = `y - apply this change
+n - do not apply this change
+d - show the full diff
+e - edit the new content before applying it
+a - apply this change and all the remaining ones
+q - do not apply this change nor any of the remaining ones
+? - print help`;
+
+/**
+ * Represents how the user is asked about each file.
+ */
+export interface ReviewOptions {
+  // shows the changes and asks about each file, defaults to the console reporter.
+  reporter?: Reporter;
+  // lets the user edit the new content of a file, defaults to $VISUAL or $EDITOR.
+  edit?: (path: string, content: string) => Promise<string>;
+}
+
+/**
+ * Opens the new content of a file in the user's editor.
+ * @param {string} path - The file path, used for the temporary file extension.
+ * @param {string} content - The content to edit.
+ * @returns {Promise<string>} The edited content.
+ * @throws {Error} - Throws an error if the editor exits with a failure.
+ */
+const editInEditor = async (path: string, content: string): Promise<string> => {
+  const [editor, ...args] =
+    (Deno.env.get("VISUAL") ?? Deno.env.get("EDITOR") ?? "vi").split(" ");
+  const tmp = await Deno.makeTempFile({ suffix: extname(path) });
+  try {
+    await Deno.writeTextFile(tmp, content);
+    const { success } = await new Deno.Command(editor, {
+      args: [...args, tmp],
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit",
+    }).output();
+    if (!success) {
+      throw new Error(
+        `${editor} exited with a failure, ${path} was not edited`,
+      );
+    }
+    return await Deno.readTextFile(tmp);
+  } finally {
+    await Deno.remove(tmp);
+  }
+};
+
+/**
+ * Groups the lines of a unified diff into runs of added, removed and unchanged lines.
+ * @param {string[]} lines - The diff lines.
+ * @returns {DiffLine[]} The runs, with their line breaks.
+ */
+const diffLinesOf = (lines: string[]): DiffLine[] => {
+  const runs: DiffLine[] = [];
+  for (const line of lines) {
+    const added = line.startsWith("+") && !line.startsWith("+++");
+    const removed = line.startsWith("-") && !line.startsWith("---");
+    const last = runs.at(-1);
+    if (last && last.added === added && last.removed === removed) {
+      last.value += `${line}\n`;
+    } else {
+      runs.push({ added, removed, value: `${line}\n` });
+    }
+  }
+  return runs;
+};
+
+/**
+ * Describes a file modification as a planned file event.
+ * @param {FileMod} patch - The file modification.
+ * @param {string} cwd - The current working directory, paths are relative to it.
+ * @returns {PlannedEvent} The event.
+ */
+const plannedEvent = (patch: FileMod, cwd: string): PlannedEvent => {
+  const pretty = (path: string) =>
+    relative(cwd, path).replaceAll(SEPARATOR, "/");
+  if (!("from" in patch)) {
+    return {
+      type: "file-planned",
+      operation: "create",
+      path: pretty(patch.to.path),
+    };
+  }
+  if ("deleted" in patch.to) {
+    return {
+      type: "file-planned",
+      operation: "delete",
+      path: pretty(patch.from.path),
+    };
+  }
+  return patch.from.path === patch.to.path
+    ? { type: "file-planned", operation: "modify", path: pretty(patch.to.path) }
+    : {
+      type: "file-planned",
+      operation: "rename",
+      path: pretty(patch.to.path),
+      from: pretty(patch.from.path),
+    };
+};
+
+/**
+ * Asks the user about each file modification, like `git add -p`, and returns the accepted ones.
+ * Deleted files are reviewed the same way, their diff shows the removed content.
+ * @param {FileMod[]} patches - The file modifications.
+ * @param {string} cwd - The current working directory.
+ * @param {ReviewOptions} [options={}] - How the user is asked.
+ * @returns {Promise<FileMod[]>} The accepted modifications, with the content edited by the user.
+ */
+export const reviewPatches = async (
+  patches: FileMod[],
+  cwd: string,
+  { reporter = consoleReporter, edit = editInEditor }: ReviewOptions = {},
+): Promise<FileMod[]> => {
+  const accepted: FileMod[] = [];
+  const info = (message: string) =>
+    reporter.report({ type: "message", level: "info", message });
+  for (const [index, patch] of patches.entries()) {
+    const planned = plannedEvent(patch, cwd);
+    const { path } = planned;
+    const showDiff = (patch: FileMod, limit = Infinity) => {
+      const lines = unifiedDiff([patch], cwd).trimEnd().split("\n");
+      reporter.report({
+        type: "diff",
+        path,
+        lines: diffLinesOf(lines.slice(0, limit)),
+      });
+      lines.length > limit &&
+        info(`... ${lines.length - limit} more lines`);
+    };
+    reporter.report(planned);
+    showDiff(patch, PREVIEW_LINES);
+
+    const editable = !("deleted" in patch.to);
+    const choices = ["y", "n", "d", ...editable ? ["e"] : [], "a", "q", "?"];
+    let current = patch;
+    while (true) {
+      const answer = (await reporter.review({
+        path,
+        index: index + 1,
+        total: patches.length,
+        choices,
+        message: `(${index + 1}/${patches.length}) Apply this change [${
+          choices.join(",")
+        }]?`,
+      }))?.trim();
+      if (answer === "y") {
+        accepted.push(current);
+        break;
+      }
+      if (answer === "n") {
+        break;
+      }
+      if (answer === "a") {
+        return [...accepted, current, ...patches.slice(index + 1)];
+      }
+      // a closed stdin is handled as quit, so nothing is applied by accident.
+      if (answer === "q" || answer === undefined) {
+        return accepted;
+      }
+      if (answer === "d") {
+        showDiff(current);
+      } else if (answer === "e" && !("deleted" in current.to)) {
+        const content = await edit(current.to.path, current.to.content);
+        current = { ...current, to: { ...current.to, content } } as FileMod;
+        showDiff(current);
+      } else {
+        info(HELP);
+      }
+    }
+  }
+  return accepted;
+};
@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert";
+import type { FileMod } from "./codemod.ts";
+import type { CodeModEvent, ReviewRequest } from "./reporter.ts";
+import { reviewPatches } from "./review.ts";
+
+Deno.test("reviewPatches shows the changes and asks about each file through the reporter", async () => {
+  const patches: FileMod[] = [
+    {
+      from: { path: "/a.ts", content: "a\n" },
+      to: { path: "/a.ts", content: "b\n" },
+    },
+    { from: { path: "/c.ts", content: "c\n" }, to: { deleted: true } },
+  ];
+  const events: CodeModEvent[] = [];
+  const requests: ReviewRequest[] = [];
+  const answers = ["?", "y", "n"];
+  const accepted = await reviewPatches(patches, "/", {
+    reporter: {
+      report: (event) => events.push(event),
+      confirm: () => false,
+      review: (request) => {
+        requests.push(request);
+        return answers.shift();
+      },
+    },
+  });
+
+  assertEquals(accepted, [patches[0]]);
+  assertEquals(
+    requests.map(({ path, index, total, choices }) =>
+      `${path} ${index}/${total} ${choices.join("")}`
+    ),
+    ["a.ts 1/2 yndeaq?", "a.ts 1/2 yndeaq?", "c.ts 2/2 yndaq?"],
+  );
+  assertEquals(
+    events.map((event) =>
+      event.type === "file-planned"
+        ? `${event.operation} ${event.path}`
+        : event.type
+    ),
+    ["modify a.ts", "diff", "message", "delete c.ts", "diff"],
+  );
+  const [, diff] = events;
+  assertEquals(
+    diff.type === "diff" && diff.lines.filter(({ added }) => added),
+    [{ added: true, removed: false, value: "+b\n" }],
+  );
+});
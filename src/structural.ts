@@ -0,0 +1,320 @@
+import { extname } from "@std/path";
+import { ts as tsc } from "npm:ts-morph@^21.0";
+import {
+  type CodeModContext,
+  type CodeModTarget,
+  type FilePatcher,
+  ts,
+} from "./codemod.ts";
+import { reportOf } from "./report.ts";
+
+/**
+ * Represents a match of a structural pattern.
+ */
+export interface TsMatch {
+  // the source of the matched node.
+  text: string;
+  // the source matched by each metavariable, keyed by name without the `$`.
+  bindings: Record<string, string>;
+  // 1-based position of the matched node.
+  line: number;
+  column: number;
+}
+
+/**
+ * Creates the replacement of a match, undefined leaves the match untouched.
+ */
+export type TsReplacer = (match: TsMatch) => string | undefined;
+
+// `$name` matches any single node, `$$$name` any number of list elements, e.g. arguments.
+const METAVARIABLE = /^\$([A-Za-z_]\w*)$/;
+const VARIADIC = /^\$\$\$([A-Za-z_]\w*)$/;
+const TEMPLATE_VARIABLE = /\$\$\$([A-Za-z_]\w*)|\$([A-Za-z_]\w*)/g;
+
+type Bindings = Record<string, tsc.Node[]>;
+
+/**
+ * Parses a pattern into the node it describes, an expression or a single statement.
+ * @param {string} pattern - The pattern.
+ * @param {tsc.ScriptKind} kind - The script kind of the patched files.
+ * @returns {[tsc.Node, tsc.SourceFile]} The pattern node and its source file.
+ * @throws {Error} - Throws if the pattern is not a single expression or statement.
+ */
+const parsePattern = (
+  pattern: string,
+  kind: tsc.ScriptKind,
+): [tsc.Node, tsc.SourceFile] => {
+  const file = tsc.createSourceFile(
+    kind === tsc.ScriptKind.TSX ? "pattern.tsx" : "pattern.ts",
+    pattern,
+    tsc.ScriptTarget.Latest,
+    true,
+    kind,
+  );
+  if (file.statements.length !== 1) {
+    throw new Error(
+      `the pattern ${
+        JSON.stringify(pattern)
+      } is not a single expression or statement`,
+    );
+  }
+  const [statement] = file.statements;
+  // without a semicolon, an expression statement describes its expression.
+  return tsc.isExpressionStatement(statement) && !pattern.trim().endsWith(";")
+    ? [statement.expression, file]
+    : [statement, file];
+};
+
+/**
+ * Returns the children of a node that take part in matching, list separators and
+ * optional semicolons are ignored.
+ * @param {tsc.Node} node - The node.
+ * @param {tsc.SourceFile} file - The source file of the node.
+ * @returns {tsc.Node[]} The children.
+ */
+const childrenOf = (node: tsc.Node, file: tsc.SourceFile): tsc.Node[] =>
+  node.getChildren(file).filter((child) =>
+    !tsc.isJSDoc(child) &&
+    !(node.kind === tsc.SyntaxKind.SyntaxList &&
+      child.kind === tsc.SyntaxKind.CommaToken) &&
+    !(child.kind === tsc.SyntaxKind.SemicolonToken && !tsc.isForStatement(node))
+  );
+
+/**
+ * Returns the source of a sequence of nodes.
+ * @param {tsc.Node[]} nodes - The nodes.
+ * @param {tsc.SourceFile} file - The source file of the nodes.
+ * @returns {string} The source, empty for no nodes.
+ */
+const sourceOf = (nodes: tsc.Node[], file: tsc.SourceFile): string =>
+  nodes.length === 0
+    ? ""
+    : file.text.slice(nodes[0].getStart(file), nodes.at(-1)!.getEnd());
+
+/**
+ * Returns the name of the metavariable a pattern node is, if any.
+ * @param {tsc.Node} node - The pattern node.
+ * @param {tsc.SourceFile} file - The pattern source file.
+ * @param {RegExp} metavariable - Either METAVARIABLE or VARIADIC.
+ * @returns {string | undefined} The name, without the `$`.
+ */
+const metavariableOf = (
+  node: tsc.Node,
+  file: tsc.SourceFile,
+  metavariable: RegExp,
+): string | undefined =>
+  // a list has the same text as its only element.
+  node.kind === tsc.SyntaxKind.SyntaxList
+    ? undefined
+    : node.getText(file).match(metavariable)?.[1];
+
+/**
+ * Creates a function that structurally matches target nodes against pattern nodes.
+ * @param {tsc.SourceFile} patternFile - The pattern source file.
+ * @param {tsc.SourceFile} file - The target source file.
+ * @returns {(pattern: tsc.Node, node: tsc.Node, bindings: Bindings) => Bindings | undefined} The match function, it returns the extended bindings or undefined if the node does not match.
+ */
+const matcher = (patternFile: tsc.SourceFile, file: tsc.SourceFile) => {
+  const matchNode = (
+    pattern: tsc.Node,
+    node: tsc.Node,
+    bindings: Bindings,
+  ): Bindings | undefined => {
+    const name = metavariableOf(pattern, patternFile, METAVARIABLE);
+    if (name) {
+      const bound = bindings[name];
+      // a repeated metavariable must match the same source every time.
+      const same = (a: string, b: string) =>
+        a.replace(/\s+/g, "") === b.replace(/\s+/g, "");
+      if (bound && !same(sourceOf(bound, file), node.getText(file))) {
+        return undefined;
+      }
+      return { ...bindings, [name]: [node] };
+    }
+    if (pattern.kind !== node.kind) {
+      return undefined;
+    }
+    const patternChildren = childrenOf(pattern, patternFile);
+    if (patternChildren.length === 0) {
+      // string literals match whatever their quotes.
+      const text = (n: tsc.Node, f: tsc.SourceFile) =>
+        tsc.isStringLiteralLike(n) ? n.text : n.getText(f);
+      return text(pattern, patternFile) === text(node, file)
+        ? bindings
+        : undefined;
+    }
+    return matchList(patternChildren, childrenOf(node, file), bindings);
+  };
+
+  const matchList = (
+    patterns: tsc.Node[],
+    nodes: tsc.Node[],
+    bindings: Bindings,
+  ): Bindings | undefined => {
+    if (patterns.length === 0) {
+      return nodes.length === 0 ? bindings : undefined;
+    }
+    const [first, ...rest] = patterns;
+    const variadic = metavariableOf(first, patternFile, VARIADIC);
+    if (variadic) {
+      // tries the longest sequence first.
+      for (let count = nodes.length; count >= 0; count--) {
+        const matched = matchList(rest, nodes.slice(count), {
+          ...bindings,
+          [variadic]: nodes.slice(0, count),
+        });
+        if (matched) {
+          return matched;
+        }
+      }
+      return undefined;
+    }
+    if (nodes.length === 0) {
+      return undefined;
+    }
+    const matched = matchNode(first, nodes[0], bindings);
+    return matched && matchList(rest, nodes.slice(1), matched);
+  };
+
+  return matchNode;
+};
+
+/**
+ * Fills a replacement template with the source matched by each metavariable.
+ * @param {string} template - The template.
+ * @param {Record<string, string>} bindings - The matched sources.
+ * @returns {string} The replacement.
+ */
+const fillTemplate = (
+  template: string,
+  bindings: Record<string, string>,
+): string => {
+  let filled = template;
+  for (const [name, source] of Object.entries(bindings)) {
+    if (source === "") {
+      // an empty argument list also drops its separator.
+      filled = filled
+        .replace(new RegExp(`,\\s*\\$\\$\\$${name}(?!\\w)`, "g"), "")
+        .replace(new RegExp(`\\$\\$\\$${name}(?!\\w)\\s*,\\s*`, "g"), "");
+    }
+  }
+  return filled.replace(
+    TEMPLATE_VARIABLE,
+    (variable, variadic, name) => bindings[variadic ?? name] ?? variable,
+  );
+};
+
+/**
+ * Creates a FilePatcher that replaces the code matching a structural pattern.
+ * The pattern is a TypeScript expression or statement where `$name` matches any node and
+ * `$$$name` any number of list elements, e.g. `useSection($props)` or `fetch($url, $$$rest)`.
+ * Matching is done on the syntax tree, so whitespace, comments and quotes do not matter.
+ * @template TContext The type of the CodeModContext.
+ * @param {string} pattern - The pattern.
+ * @param {string | TsReplacer} replacement - A template using the pattern metavariables, or a function of the match.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ * @throws {Error} - Throws if the template uses a metavariable that is not in the pattern.
+ */
+export const tsReplacePatcher = <
+  TContext extends CodeModContext = CodeModContext,
+>(
+  pattern: string,
+  replacement: string | TsReplacer,
+): FilePatcher<TContext> => {
+  if (typeof replacement === "string") {
+    const names = new Set(
+      [...pattern.matchAll(TEMPLATE_VARIABLE)].map(([, v, name]) => v ?? name),
+    );
+    for (
+      const [variable, variadic, name] of replacement.matchAll(
+        TEMPLATE_VARIABLE,
+      )
+    ) {
+      if (!names.has(variadic ?? name)) {
+        throw new Error(
+          `the replacement uses ${variable} which is not in the pattern ${
+            JSON.stringify(pattern)
+          }`,
+        );
+      }
+    }
+  }
+  const replacer: TsReplacer = typeof replacement === "string"
+    ? ({ bindings }) => fillTemplate(replacement, bindings)
+    : replacement;
+  const patcher = `tsReplace(${JSON.stringify(pattern)})`;
+  const patterns = new Map<tsc.ScriptKind, [tsc.Node, tsc.SourceFile]>();
+
+  return ts(({ content: sourceFile, path }, ctx) => {
+    const kind = [".tsx", ".jsx"].includes(extname(path))
+      ? tsc.ScriptKind.TSX
+      : tsc.ScriptKind.TS;
+    if (!patterns.has(kind)) {
+      patterns.set(kind, parsePattern(pattern, kind));
+    }
+    const [root, patternFile] = patterns.get(kind)!;
+    const file = sourceFile.compilerNode;
+    const matches = matcher(patternFile, file);
+
+    const edits: { start: number; end: number; text: string }[] = [];
+    const locations: { line: number; column: number }[] = [];
+    const visit = (node: tsc.Node) => {
+      const bindings = matches(root, node, {});
+      if (!bindings) {
+        tsc.forEachChild(node, visit);
+        return;
+      }
+      // nested matches are left to the next run, like an outer edit would overwrite them.
+      const start = node.getStart(file);
+      const position = file.getLineAndCharacterOfPosition(start);
+      const match: TsMatch = {
+        text: node.getText(file),
+        bindings: Object.fromEntries(
+          Object.entries(bindings).map((
+            [name, nodes],
+          ) => [name, sourceOf(nodes, file)]),
+        ),
+        line: position.line + 1,
+        column: position.character + 1,
+      };
+      const text = replacer(match);
+      if (text !== undefined) {
+        edits.push({ start, end: node.getEnd(), text });
+        locations.push({ line: match.line, column: match.column });
+      }
+    };
+    tsc.forEachChild(file, visit);
+
+    if (edits.length > 0) {
+      let text = file.text;
+      for (const { start, end, text: replaced } of edits.toReversed()) {
+        text = `${text.slice(0, start)}${replaced}${text.slice(end)}`;
+      }
+      sourceFile.replaceText([0, sourceFile.getEnd()], text);
+      reportOf(ctx).matches.push({
+        path,
+        patcher,
+        count: locations.length,
+        locations,
+      });
+    }
+    return { path, content: sourceFile };
+  });
+};
+
+/**
+ * Creates a CodeModTarget that replaces the code matching a structural pattern in every TypeScript and JSX file.
+ * @template TContext The type of the CodeModContext.
+ * @param {string} pattern - The pattern, e.g. `useSection($props)`.
+ * @param {string | TsReplacer} replacement - The replacement, e.g. `useComponent($props, { legacy: true })`.
+ * @returns {CodeModTarget<TContext>} A CodeModTarget object.
+ */
+export const tsReplace = <
+  TContext extends CodeModContext = CodeModContext,
+>(
+  pattern: string,
+  replacement: string | TsReplacer,
+): CodeModTarget<TContext> => ({
+  include: ["**/*.ts", "**/*.tsx", "**/*.jsx"],
+  apply: tsReplacePatcher(pattern, replacement),
+});
@@ -0,0 +1,64 @@
+import { assertThrows } from "@std/assert";
+import { tsReplace } from "./structural.ts";
+import { testCodeMod } from "./testing.ts";
+
+Deno.test("tsReplace binds a node to $name", async () => {
+  await testCodeMod({
+    input: { "a.ts": `const a = useSection({ x: 1 });\n` },
+    targets: [tsReplace("useSection($props)", "useComponent($props)")],
+    expected: { "a.ts": `const a = useComponent({ x: 1 });\n` },
+  });
+});
+
+Deno.test("tsReplace binds the remaining elements to $$$rest", async () => {
+  await testCodeMod({
+    input: {
+      "a.ts": [
+        `http("/a", { method: "POST" }, retry);`,
+        `http("/b");`,
+        "",
+      ].join("\n"),
+    },
+    targets: [tsReplace("http($url, $$$rest)", "fetch($$$rest, $url)")],
+    expected: {
+      // an empty $$$rest drops its comma.
+      "a.ts": [
+        `fetch({ method: "POST" }, retry, "/a");`,
+        `fetch("/b");`,
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("tsReplace matches a repeated metavariable only with the same code", async () => {
+  await testCodeMod({
+    input: { "a.ts": `const y = a + a;\nconst z = a + b;\n` },
+    targets: [tsReplace("$x + $x", "2 * $x")],
+    expected: { "a.ts": `const y = 2 * a;\nconst z = a + b;\n` },
+  });
+});
+
+Deno.test("tsReplace leaves nested matches to the next run", async () => {
+  await testCodeMod({
+    input: { "a.ts": `f(f(x));\n` },
+    targets: [tsReplace("f($a)", "g($a)")],
+    expected: { "a.ts": `g(f(x));\n` },
+  });
+});
+
+Deno.test("tsReplace patches jsx files", async () => {
+  await testCodeMod({
+    input: { "a.jsx": `export const A = () => <div>{t("a")}</div>;\n` },
+    targets: [tsReplace("t($key)", "i18n.t($key)")],
+    expected: { "a.jsx": `export const A = () => <div>{i18n.t("a")}</div>;\n` },
+  });
+});
+
+Deno.test("tsReplace throws when the template uses an unknown metavariable", () => {
+  assertThrows(
+    () => tsReplace("f($a)", "g($b)"),
+    Error,
+    `the replacement uses $b which is not in the pattern "f($a)"`,
+  );
+});
@@ -0,0 +1,117 @@
+import * as diff from "npm:diff@8.0.4";
+import {
+  codeMod,
+  type CodeModContext,
+  type CodeModResult,
+  type CodeModTarget,
+  type DefaultCodeModContext,
+} from "./codemod.ts";
+import { inMemoryFS } from "./memfs.ts";
+
+/**
+ * Represents options for testing a code modification against fixtures.
+ * @template TContext The type of the CodeModContext.
+ */
+export interface CodeModTestOptions<
+  TContext extends DefaultCodeModContext = DefaultCodeModContext,
+> {
+  // the files before running the codemod, keyed by path relative to the cwd.
+  input: Record<string, string>;
+  targets: CodeModTarget<TContext & CodeModContext>[];
+  // the files expected after running the codemod, keyed by path relative to the cwd.
+  expected: Record<string, string>;
+  context?: Omit<TContext, "fs">;
+  cwd?: string;
+  // if true, the test also fails when running the targets again on their output changes it.
+  verifyIdempotency?: boolean;
+}
+
+/**
+ * Runs the given targets against an in-memory filesystem and asserts the resulting files.
+ * @template TContext The type of the CodeModContext.
+ * @param {CodeModTestOptions<TContext>} options - The fixtures and targets to test.
+ * @returns {Promise<CodeModResult>} The codemod result, for further assertions.
+ * @throws {Error} - Throws an error describing every file that differs from the expected output.
+ */
+export const testCodeMod = async <
+  TContext extends DefaultCodeModContext = DefaultCodeModContext,
+>(
+  {
+    input,
+    targets,
+    expected,
+    context,
+    cwd = "/",
+    verifyIdempotency,
+  }: CodeModTestOptions<TContext>,
+): Promise<CodeModResult> => {
+  const fs = inMemoryFS(input, cwd);
+  const result = await codeMod({
+    targets,
+    context: { ...context as TContext, fs },
+    dryRun: true,
+    verifyIdempotency,
+  });
+
+  for (const change of result.changes) {
+    if (change.operation === "delete" || change.operation === "rename") {
+      await fs.remove(change.from ?? change.path);
+    }
+    if (change.after !== undefined) {
+      await fs.writeTextFile(change.path, change.after);
+    }
+  }
+
+  const actual = fs.snapshot();
+  const failures: string[] = [];
+  const paths = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+  for (const path of [...paths].sort()) {
+    if (!(path in actual)) {
+      failures.push(`${path}: expected file to exist`);
+    } else if (!(path in expected)) {
+      failures.push(`${path}: unexpected file`);
+    } else if (actual[path] !== expected[path]) {
+      failures.push(
+        diff.createPatch(
+          path,
+          expected[path],
+          actual[path],
+          "expected",
+          "actual",
+        ),
+      );
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(
+      `codemod output does not match the expected files:\n${
+        failures.join("\n")
+      }`,
+    );
+  }
+  return result;
+};
+
+/**
+ * Runs the given targets twice against an in-memory filesystem and asserts that the second run,
+ * on the output of the first one, changes nothing.
+ * @template TContext The type of the CodeModContext.
+ * @param {Omit<CodeModTestOptions<TContext>, "expected" | "verifyIdempotency">} options - The fixtures and targets to test.
+ * @returns {Promise<CodeModResult>} The result of the first run, for further assertions.
+ * @throws {CodeModIdempotencyError} - Throws an error with the diff of the second run if it changes any file.
+ */
+export const assertIdempotent = <
+  TContext extends DefaultCodeModContext = DefaultCodeModContext,
+>(
+  { input, targets, context, cwd = "/" }: Omit<
+    CodeModTestOptions<TContext>,
+    "expected" | "verifyIdempotency"
+  >,
+): Promise<CodeModResult> =>
+  codeMod({
+    targets,
+    context: { ...context as TContext, fs: inMemoryFS(input, cwd) },
+    dryRun: true,
+    verifyIdempotency: true,
+  });
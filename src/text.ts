@@ -0,0 +1,258 @@
+import { escape } from "@std/regexp";
+import type { CodeModContext, FilePatcher } from "./codemod.ts";
+import { reportOf } from "./report.ts";
+
+/**
+ * Represents the number of matches a text patcher expects in every file, e.g. `1` or `{ min: 1 }`.
+ */
+export type MatchCount = number | { min?: number; max?: number };
+
+/**
+ * Represents the options of `replaceText`.
+ */
+export interface ReplaceTextOptions {
+  // the number of matches expected in every file, the patcher throws otherwise.
+  count?: MatchCount;
+}
+
+/**
+ * Represents the options of `insertText`, exactly one of `before` and `after` must be set.
+ */
+export interface InsertTextOptions {
+  // the anchor line the text is inserted before, a string matches the lines that contain it.
+  before?: RegExp | string;
+  // the anchor line the text is inserted after, a string matches the lines that contain it.
+  after?: RegExp | string;
+  // inserts the text at every anchor line instead of the first one.
+  all?: boolean;
+  // the number of anchor lines expected in every file, the patcher throws otherwise.
+  count?: MatchCount;
+}
+
+/**
+ * Represents the options of `managedBlock`.
+ */
+export interface ManagedBlockOptions {
+  // the line comment of the markers, or the opening and closing delimiters of a block comment, defaults to "#".
+  comment?: string | [string, string];
+  // where a new block is added, defaults to the end of the file.
+  position?: "start" | "end";
+}
+
+type Location = { line: number; column: number };
+
+/**
+ * Finds the 1-based line and column of an offset.
+ * @param {string} content - The content.
+ * @param {number} index - The offset.
+ * @returns {Location} The location.
+ */
+const locate = (content: string, index: number): Location => {
+  const before = content.slice(0, index).split("\n");
+  return { line: before.length, column: before.at(-1)!.length + 1 };
+};
+
+/**
+ * Throws if a number of matches is not the expected one.
+ * @param {number} found - The number of matches.
+ * @param {MatchCount | undefined} expected - The expected number of matches.
+ * @param {string} path - The file path.
+ * @param {string} patcher - The patcher description.
+ * @throws {Error} - Throws if the number of matches is out of the expected range.
+ */
+const assertCount = (
+  found: number,
+  expected: MatchCount | undefined,
+  path: string,
+  patcher: string,
+) => {
+  if (expected === undefined) {
+    return;
+  }
+  const { min = 0, max = Infinity } = typeof expected === "number"
+    ? { min: expected, max: expected }
+    : expected;
+  if (found < min || found > max) {
+    const range = min === max
+      ? `${min}`
+      : max === Infinity
+      ? `at least ${min}`
+      : `${min} to ${max}`;
+    throw new Error(
+      `${patcher} expected ${range} match(es) in ${path}, found ${found}`,
+    );
+  }
+};
+
+/**
+ * Adds the places a text patcher touched to the report of the run.
+ * @param {CodeModContext} ctx - The codemod context.
+ * @param {string} path - The file path.
+ * @param {string} patcher - The patcher description.
+ * @param {Location[]} locations - The touched places.
+ */
+const reportMatches = (
+  ctx: CodeModContext,
+  path: string,
+  patcher: string,
+  locations: Location[],
+) => {
+  if (locations.length > 0) {
+    reportOf(ctx).matches.push({
+      path,
+      patcher,
+      count: locations.length,
+      locations,
+    });
+  }
+};
+
+/**
+ * Converts a pattern to a regular expression, strings match literally.
+ * @param {RegExp | string} pattern - The pattern.
+ * @param {string} [flags] - The flags of a string pattern.
+ * @returns {RegExp} A copy of the regular expression, so its lastIndex is not shared.
+ */
+const toRegExp = (pattern: RegExp | string, flags?: string): RegExp =>
+  typeof pattern === "string"
+    ? new RegExp(escape(pattern), flags)
+    : new RegExp(pattern);
+
+/**
+ * Creates a FilePatcher that replaces the matches of a pattern, like `String.prototype.replace`.
+ * A string pattern replaces all its occurrences, a regular expression only the first match unless it is global.
+ * @template TContext The type of the CodeModContext.
+ * @param {RegExp | string} pattern - The pattern, capture groups can be used in the replacement.
+ * @param {string | ((match: string, ...groups: string[]) => string)} replacement - The replacement, e.g. `"$1=2"`, or a function of the match and its groups.
+ * @param {ReplaceTextOptions} [options={}] - The replace options.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const replaceText = <TContext extends CodeModContext = CodeModContext>(
+  pattern: RegExp | string,
+  replacement: string | ((match: string, ...groups: string[]) => string),
+  { count }: ReplaceTextOptions = {},
+): FilePatcher<TContext> =>
+({ path, content }, ctx) => {
+  const regex = toRegExp(pattern, "g");
+  const patcher = `replaceText(${regex})`;
+  const matches = regex.global
+    ? [...content.matchAll(regex)]
+    : [regex.exec(content)].filter((match) => match !== null);
+  assertCount(matches.length, count, path, patcher);
+  reportMatches(
+    ctx,
+    path,
+    patcher,
+    matches.map((match) => locate(content, match.index!)),
+  );
+  return {
+    path,
+    // replace accepts both, but TypeScript declares an overload for each.
+    content: content.replace(regex, replacement as string),
+  };
+};
+
+/**
+ * Creates a FilePatcher that inserts lines before or after an anchor line.
+ * The text is not inserted again where it is already next to the anchor, so the patcher can be re-run.
+ * @template TContext The type of the CodeModContext.
+ * @param {string} text - The inserted text, one or more lines.
+ * @param {InsertTextOptions} options - The anchor and insert options.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ * @throws {Error} - Throws if neither or both of `before` and `after` are set.
+ */
+export const insertText = <TContext extends CodeModContext = CodeModContext>(
+  text: string,
+  { before, after, all = false, count }: InsertTextOptions,
+): FilePatcher<TContext> => {
+  const anchor = before ?? after;
+  if (anchor === undefined || (before !== undefined && after !== undefined)) {
+    throw new Error("insertText expects exactly one of before and after");
+  }
+  const matcher = toRegExp(anchor);
+  const patcher = `insertText(${before !== undefined ? "before" : "after"} ${
+    typeof anchor === "string" ? JSON.stringify(anchor) : anchor
+  })`;
+  const inserted = text.replace(/\r?\n$/, "").split(/\r?\n/);
+  return ({ path, content }, ctx) => {
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const lines = content.split(eol);
+    const anchors = lines.flatMap((line, i) => {
+      matcher.lastIndex = 0;
+      return matcher.test(line) ? [i] : [];
+    });
+    assertCount(anchors.length, count, path, patcher);
+    const locations: Location[] = [];
+    // from the last anchor, so the indexes of the previous ones do not move.
+    for (const i of anchors.slice(0, all ? undefined : 1).toReversed()) {
+      const at = before !== undefined ? i : i + 1;
+      const adjacent = before !== undefined
+        ? lines.slice(Math.max(0, i - inserted.length), i)
+        : lines.slice(i + 1, i + 1 + inserted.length);
+      if (adjacent.join("\n") !== inserted.join("\n")) {
+        lines.splice(at, 0, ...inserted);
+        locations.unshift({ line: i + 1, column: 1 });
+      }
+    }
+    reportMatches(ctx, path, patcher, locations);
+    return { path, content: lines.join(eol) };
+  };
+};
+
+/**
+ * Creates a FilePatcher that keeps a block of lines between `BEGIN <id>` and `END <id>` marker comments.
+ * The block is added if it is missing and its content is replaced otherwise, the rest of the file is untouched.
+ * @template TContext The type of the CodeModContext.
+ * @param {string} id - The block id, unique within the file.
+ * @param {string} text - The content of the block.
+ * @param {ManagedBlockOptions} [options={}] - The block options.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const managedBlock = <TContext extends CodeModContext = CodeModContext>(
+  id: string,
+  text: string,
+  { comment = "#", position = "end" }: ManagedBlockOptions = {},
+): FilePatcher<TContext> => {
+  const [open, close] = typeof comment === "string" ? [comment] : comment;
+  const marker = (name: string) =>
+    `${open} ${name} ${id}${close ? ` ${close}` : ""}`;
+  const [begin, end] = [marker("BEGIN"), marker("END")];
+  const patcher = `managedBlock(${JSON.stringify(id)})`;
+  const body = text === "" ? [] : text.replace(/\r?\n$/, "").split(/\r?\n/);
+  return ({ path, content }, ctx) => {
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const lines = content === "" ? [] : content.split(eol);
+    const first = lines.findIndex((line) => line.trim() === begin);
+    const last = lines.findIndex((line, i) => i > first && line.trim() === end);
+    if (first !== -1 && last === -1) {
+      throw new Error(
+        `${patcher} found "${begin}" without "${end}" in ${path}`,
+      );
+    }
+    if (first !== -1) {
+      if (lines.slice(first + 1, last).join("\n") === body.join("\n")) {
+        return { path, content };
+      }
+      lines.splice(first + 1, last - first - 1, ...body);
+      reportMatches(ctx, path, patcher, [{ line: first + 1, column: 1 }]);
+      return { path, content: lines.join(eol) };
+    }
+    const block = [begin, ...body, end];
+    if (position === "start") {
+      lines.unshift(...block);
+      reportMatches(ctx, path, patcher, [{ line: 1, column: 1 }]);
+    } else {
+      // keeps the file ending with a line break.
+      const trailing = lines.at(-1) === "" ? lines.pop() : undefined;
+      lines.push(...block);
+      reportMatches(ctx, path, patcher, [{
+        line: lines.length - block.length + 1,
+        column: 1,
+      }]);
+      if (trailing !== undefined || content === "") {
+        lines.push("");
+      }
+    }
+    return { path, content: lines.join(eol) };
+  };
+};
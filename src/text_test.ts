@@ -0,0 +1,27 @@
+import { replaceText } from "./text.ts";
+import { testCodeMod } from "./testing.ts";
+
+Deno.test("replaceText replaces with a function of the match and its groups", async () => {
+  await testCodeMod({
+    input: { "VERSION": "v1.2.3\n" },
+    targets: [{
+      include: ["VERSION"],
+      apply: replaceText(
+        /v(\d+)\.\d+\.\d+/,
+        (_match, major: string) => `v${Number(major) + 1}.0.0`,
+      ),
+    }],
+    expected: { "VERSION": "v2.0.0\n" },
+  });
+});
+
+Deno.test("replaceText expands the groups of a string replacement", async () => {
+  await testCodeMod({
+    input: { "a.ts": "const a = 1, b = 1;\n" },
+    targets: [{
+      include: ["a.ts"],
+      apply: replaceText(/(\w) = 1/g, "$1 = 2"),
+    }],
+    expected: { "a.ts": "const a = 2, b = 2;\n" },
+  });
+});
@@ -0,0 +1,239 @@
+import { parse, stringify } from "@std/toml";
+import type { CodeModContext, FilePatcher, JsonPatcher } from "./codemod.ts";
+import { type ValueEdit, valueEdits } from "./jsonc.ts";
+
+type Path = (string | number)[];
+
+const KEY_PART = String.raw`(?:[A-Za-z0-9_-]+|"(?:[^"\\]|\\.)*"|'[^']*')`;
+const DOTTED_KEY = String.raw`${KEY_PART}(?:\s*\.\s*${KEY_PART})*`;
+const TABLE = new RegExp(
+  String.raw`^\s*(\[\[?)\s*(${DOTTED_KEY})\s*\]\]?\s*(?:#.*)?$`,
+);
+const ENTRY = new RegExp(String.raw`^(\s*(${DOTTED_KEY})\s*=\s*)(.*)$`);
+// a value that fits on its line, followed by an optional comment.
+const SCALAR = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#"'[{]+)(\s*(?:#.*)?)$/;
+
+/**
+ * Represents a key/value line of a TOML document.
+ */
+interface Entry {
+  path: Path;
+  line: number;
+  // the key and the equal sign.
+  prefix: string;
+  // the value, only set when it is a single-line scalar.
+  scalar?: string;
+  // the whitespace and comment after the value.
+  suffix: string;
+}
+
+/**
+ * Represents a table of a TOML document, the root table included.
+ */
+interface Table {
+  path: Path;
+  // the last line of the table header or entries, -1 for an empty root table.
+  end: number;
+}
+
+/**
+ * Splits a dotted TOML key into its parts.
+ * @param {string} key - The dotted key, e.g. `tool."my.app".version`.
+ * @returns {string[]} The unquoted parts.
+ */
+const keyParts = (key: string): string[] =>
+  key.match(new RegExp(KEY_PART, "g"))!.map((part) =>
+    part.startsWith('"')
+      ? JSON.parse(part)
+      : part.startsWith("'")
+      ? part.slice(1, -1)
+      : part
+  );
+
+const samePath = (a: Path, b: Path): boolean =>
+  a.length === b.length && a.every((part, i) => part === b[i]);
+
+/**
+ * Finds the tables and key/value lines of a TOML document, skipping multi-line values.
+ * @param {string[]} lines - The document lines.
+ * @returns {{ entries: Entry[]; tables: Table[] }} The entries and tables.
+ */
+const scan = (lines: string[]): { entries: Entry[]; tables: Table[] } => {
+  const entries: Entry[] = [];
+  const tables: Table[] = [{ path: [], end: -1 }];
+  const arrays = new Map<string, number>();
+  let table = tables[0];
+  let closing: string | undefined;
+  for (const [line, text] of lines.entries()) {
+    if (closing) {
+      // inside a multi-line string or array.
+      if (text.includes(closing)) {
+        closing = undefined;
+        table.end = line;
+      }
+      continue;
+    }
+    const header = text.match(TABLE);
+    if (header) {
+      const [, brackets, key] = header;
+      let path: Path = keyParts(key);
+      if (brackets === "[[") {
+        const index = (arrays.get(path.join(".")) ?? -1) + 1;
+        arrays.set(path.join("."), index);
+        path = [...path, index];
+      }
+      table = { path, end: line };
+      tables.push(table);
+      continue;
+    }
+    const entry = text.match(ENTRY);
+    if (!entry) {
+      continue;
+    }
+    const [, prefix, key, rest] = entry;
+    const scalar = rest.match(SCALAR);
+    entries.push({
+      path: [...table.path, ...keyParts(key)],
+      line,
+      prefix,
+      scalar: scalar?.[1],
+      suffix: scalar?.[2] ?? "",
+    });
+    table.end = line;
+    const opening = rest.match(/^("""|'''|\[)/)?.[1];
+    const closed = opening === "["
+      ? [...rest].filter((c) => c === "[").length <=
+        [...rest].filter((c) => c === "]").length
+      : opening !== undefined && rest.indexOf(opening, 3) !== -1;
+    if (opening && !closed) {
+      closing = opening === "[" ? "]" : opening;
+    }
+  }
+  return { entries, tables };
+};
+
+/**
+ * Formats a scalar as a TOML value.
+ * @param {unknown} value - The value.
+ * @returns {string | undefined} The TOML value, undefined if it is not a string, number, boolean or date.
+ */
+const scalarValue = (value: unknown): string | undefined => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "number") {
+    return Number.isNaN(value)
+      ? "nan"
+      : Number.isFinite(value)
+      ? String(value)
+      : value > 0
+      ? "inf"
+      : "-inf";
+  }
+  return typeof value === "boolean" ? String(value) : undefined;
+};
+
+/**
+ * Applies a value edit to the lines of a TOML document, keeping the other lines untouched.
+ * @param {string[]} lines - The document lines, edited in place.
+ * @param {ValueEdit} edit - The edit.
+ * @returns {boolean} False if the edit cannot be applied in place.
+ */
+const applyEdit = (lines: string[], { path, value }: ValueEdit): boolean => {
+  const { entries, tables } = scan(lines);
+  const entry = entries.find((entry) => samePath(entry.path, path));
+  if (value === undefined) {
+    if (entry?.scalar === undefined) {
+      return false;
+    }
+    lines.splice(entry.line, 1);
+    return true;
+  }
+  const rendered = scalarValue(value);
+  if (rendered === undefined) {
+    return false;
+  }
+  if (entry) {
+    if (entry.scalar === undefined) {
+      return false;
+    }
+    lines[entry.line] = `${entry.prefix}${rendered}${entry.suffix}`;
+    return true;
+  }
+  const key = path.at(-1);
+  const table = tables.find((table) => samePath(table.path, path.slice(0, -1)));
+  if (typeof key !== "string" || !table) {
+    return false;
+  }
+  const quoted = /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+  lines.splice(table.end + 1, 0, `${quoted} = ${rendered}`);
+  return true;
+};
+
+/**
+ * Parses a TOML document.
+ * @template T The type of the parsed content.
+ * @param {string} content - The document content.
+ * @param {string} [path] - The file path, used in error messages.
+ * @returns {T} The parsed content.
+ * @throws {Error} - Throws an error if the document is not valid TOML.
+ */
+export const parseTOML = <T = Record<string, unknown>>(
+  content: string,
+  path?: string,
+): T => {
+  try {
+    return parse(content) as T;
+  } catch (err) {
+    throw new Error(
+      `could not parse ${path ?? "TOML"}: ${(err as Error).message}`,
+    );
+  }
+};
+
+/**
+ * Creates a FilePatcher for TOML files. Scalar values that are changed, added to an existing
+ * table or removed are edited in place, keeping comments and formatting. Other changes, e.g. new
+ * tables or arrays, rewrite the whole document without comments.
+ * @template TIn The type of the input TOML content.
+ * @template TOut The type of the output TOML content.
+ * @template TContext The type of the CodeModContext.
+ * @param {JsonPatcher<TIn, TContext, TOut>} f - The TOML patcher function.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const toml = <
+  TIn,
+  TOut = TIn,
+  TContext extends CodeModContext = CodeModContext,
+>(f: JsonPatcher<TIn, TContext, TOut>): FilePatcher<TContext> =>
+async ({ path, content }, ctx) => {
+  const before = parseTOML<TIn>(content, path);
+  // the patcher gets its own copy, so it can mutate it in place.
+  const result = await f({ path, content: structuredClone(before) }, ctx);
+
+  if ("deleted" in result) {
+    return result;
+  }
+  const edits = valueEdits(before, result.content);
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(eol);
+  const inPlace = edits.every((edit) => applyEdit(lines, edit)) &&
+    lines.join(eol);
+  // the scan is line based, so the edited document is checked before it is used.
+  if (inPlace !== false) {
+    try {
+      if (valueEdits(parse(inPlace), result.content).length === 0) {
+        return { path: result.path, content: inPlace };
+      }
+    } catch {
+      // falls back to rewriting the document.
+    }
+  }
+  return {
+    path: result.path,
+    content: stringify(result.content as Record<string, unknown>),
+  };
+};
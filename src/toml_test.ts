@@ -0,0 +1,66 @@
+import { toml } from "./toml.ts";
+import { testCodeMod } from "./testing.ts";
+
+interface Config {
+  package: Record<string, unknown>;
+}
+
+Deno.test("toml edits the changed, added and removed values in place", async () => {
+  await testCodeMod({
+    input: {
+      "Cargo.toml": [
+        "# the package",
+        "[package]",
+        `name = "app" # the name`,
+        `version   =   "1.0.0"`,
+        `edition = "2018"`,
+        "",
+      ].join("\n"),
+    },
+    targets: [{
+      include: ["Cargo.toml"],
+      apply: toml<Config>(({ path, content }) => {
+        content.package.name = "web";
+        delete content.package.edition;
+        content.package.publish = false;
+        return { path, content };
+      }),
+    }],
+    expected: {
+      "Cargo.toml": [
+        "# the package",
+        "[package]",
+        `name = "web" # the name`,
+        `version   =   "1.0.0"`,
+        "publish = false",
+        "",
+      ].join("\n"),
+    },
+  });
+});
+
+Deno.test("toml edits a changed date in place", async () => {
+  await testCodeMod({
+    input: {
+      "release.toml": [
+        "[package]",
+        "released = 2020-01-01T00:00:00Z # the first release",
+        "",
+      ].join("\n"),
+    },
+    targets: [{
+      include: ["release.toml"],
+      apply: toml<Config>(({ path, content }) => {
+        content.package.released = new Date("2021-06-01T00:00:00Z");
+        return { path, content };
+      }),
+    }],
+    expected: {
+      "release.toml": [
+        "[package]",
+        "released = 2021-06-01T00:00:00.000Z # the first release",
+        "",
+      ].join("\n"),
+    },
+  });
+});
@@ -0,0 +1,242 @@
+import { join } from "@std/path";
+import type { CodeModContext, FileMod } from "./codemod.ts";
+
+/**
+ * The default path of the undo journal, relative to the cwd.
+ */
+export const DEFAULT_JOURNAL_PATH = ".codemod/journal.json";
+
+/**
+ * Represents the content of a file before and after a codemod, null means the file does not exist.
+ */
+export interface JournalEntry {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Represents a codemod run recorded in the undo journal.
+ */
+export interface JournalRun {
+  name?: string;
+  description?: string;
+  appliedAt: string;
+  entries: JournalEntry[];
+}
+
+/**
+ * Represents the undo journal, runs are ordered from the oldest to the most recent.
+ */
+export interface Journal {
+  runs: JournalRun[];
+}
+
+type FS = CodeModContext["fs"];
+
+/**
+ * Reads a file, returning null when it does not exist.
+ * @param {FS} fs - The filesystem.
+ * @param {string} path - The file path.
+ * @returns {Promise<string | null>} The file content.
+ */
+const read = async (fs: FS, path: string): Promise<string | null> => {
+  return await fs.exists(path) ? await fs.readTextFile(path) : null;
+};
+
+/**
+ * Writes a file, removing it when the content is null.
+ * @param {FS} fs - The filesystem.
+ * @param {string} path - The file path.
+ * @param {string | null} content - The file content.
+ * @returns {Promise<void>} A promise that resolves when the file is written.
+ */
+const write = async (
+  fs: FS,
+  path: string,
+  content: string | null,
+): Promise<void> => {
+  if (content !== null) {
+    await fs.ensureFile(path);
+    await fs.writeTextFile(path, content);
+    return;
+  }
+  await fs.remove(path).catch((err) => {
+    if (!(err instanceof Deno.errors.NotFound)) {
+      throw err;
+    }
+  });
+};
+
+/**
+ * Computes the final content of every file touched by the patches.
+ * @param {FileMod[]} patches - The file modifications, in the order they are applied.
+ * @returns {Map<string, string | null>} The final content of each file, null for removed files.
+ */
+const finalContents = (patches: FileMod[]): Map<string, string | null> => {
+  const contents = new Map<string, string | null>();
+  for (const patch of patches) {
+    if ("deleted" in patch.to) {
+      "from" in patch && contents.set(patch.from.path, null);
+      continue;
+    }
+    if ("from" in patch) {
+      if (patch.from.path !== patch.to.path) {
+        contents.set(patch.from.path, null);
+      } else if (patch.from.content === patch.to.content) {
+        continue;
+      }
+    }
+    contents.set(patch.to.path, patch.to.content);
+  }
+  return contents;
+};
+
+/**
+ * Pairs the content to write to each file with its current content.
+ * @param {FS} fs - The filesystem.
+ * @param {Map<string, string | null>} contents - The content to write to each file, null removes it.
+ * @returns {Promise<JournalEntry[]>} The files with their current and next content.
+ */
+const backup = async (
+  fs: FS,
+  contents: Map<string, string | null>,
+): Promise<JournalEntry[]> => {
+  const entries: JournalEntry[] = [];
+  for (const [path, after] of contents) {
+    entries.push({ path, before: await read(fs, path), after });
+  }
+  return entries;
+};
+
+/**
+ * Writes files all-or-nothing: the backed up contents are restored if any write fails.
+ * @param {FS} fs - The filesystem.
+ * @param {JournalEntry[]} entries - The files to write, with their backed up content.
+ * @returns {Promise<void>} A promise that resolves when every file is written.
+ * @throws {Error} - Throws an error (with the failure as cause) after rolling back.
+ */
+const transact = async (fs: FS, entries: JournalEntry[]): Promise<void> => {
+  const written: JournalEntry[] = [];
+  try {
+    for (const entry of entries) {
+      written.push(entry);
+      await write(fs, entry.path, entry.after);
+    }
+  } catch (err) {
+    const failures: string[] = [];
+    for (const { path, before } of written.reverse()) {
+      await write(fs, path, before).catch((restoreErr) => {
+        failures.push(`${path}: ${restoreErr}`);
+      });
+    }
+    throw new Error(
+      failures.length === 0
+        ? `${err}. All changes were rolled back.`
+        : `${err}. Rollback failed for:\n${failures.join("\n")}`,
+      { cause: err },
+    );
+  }
+};
+
+/**
+ * Reads the undo journal.
+ * @param {FS} fs - The filesystem.
+ * @param {string} path - The journal path.
+ * @returns {Promise<Journal>} The journal, empty if it does not exist.
+ */
+const readJournal = async (fs: FS, path: string): Promise<Journal> => {
+  const content = await read(fs, path);
+  return content === null ? { runs: [] } : JSON.parse(content);
+};
+
+/**
+ * Applies the patches as a transaction and records them in the undo journal.
+ * @param {FileMod[]} patches - The file modifications to apply.
+ * @param {FS} fs - The filesystem to write to.
+ * @param {Omit<JournalRun, "appliedAt" | "entries">} run - The codemod name and description.
+ * @param {string | false} journal - The journal path relative to the cwd, false skips the journal.
+ * @returns {Promise<JournalRun>} The applied run.
+ */
+export const applyTransaction = async (
+  patches: FileMod[],
+  fs: FS,
+  run: Omit<JournalRun, "appliedAt" | "entries">,
+  journal: string | false = DEFAULT_JOURNAL_PATH,
+): Promise<JournalRun> => {
+  const entries = await backup(fs, finalContents(patches));
+  const applied: JournalRun = {
+    ...run,
+    appliedAt: new Date().toISOString(),
+    entries,
+  };
+
+  // a run without changes is not recorded, so undo reverts the last run that changed files.
+  if (!journal || entries.length === 0) {
+    await transact(fs, entries);
+    return applied;
+  }
+
+  // the journal is written in the same transaction as the files it describes.
+  const journalPath = join(fs.cwd(), journal);
+  const { runs } = await readJournal(fs, journalPath);
+  await transact(fs, [
+    ...entries,
+    ...await backup(
+      fs,
+      new Map([[
+        journalPath,
+        `${JSON.stringify({ runs: [...runs, applied] }, null, 2)}\n`,
+      ]]),
+    ),
+  ]);
+  return applied;
+};
+
+/**
+ * Reverts the most recent run recorded in the undo journal.
+ * @param {FS} fs - The filesystem.
+ * @param {string} journal - The journal path relative to the cwd.
+ * @param {boolean} force - Whether to revert files that were changed after the run.
+ * @returns {Promise<JournalRun | undefined>} The reverted run, or undefined if the journal is empty.
+ * @throws {Error} - Throws an error if files were changed after the run and force is false.
+ */
+export const revertTransaction = async (
+  fs: FS,
+  journal: string = DEFAULT_JOURNAL_PATH,
+  force = false,
+): Promise<JournalRun | undefined> => {
+  const journalPath = join(fs.cwd(), journal);
+  const { runs } = await readJournal(fs, journalPath);
+  const run = runs.at(-1);
+  if (!run) {
+    return undefined;
+  }
+
+  if (!force) {
+    const changed: string[] = [];
+    for (const { path, after } of run.entries) {
+      if (await read(fs, path) !== after) {
+        changed.push(path);
+      }
+    }
+    if (changed.length > 0) {
+      throw new Error(
+        `cannot undo ${
+          run.name ?? "codemod"
+        }, files were changed after it was applied:\n${changed.join("\n")}`,
+      );
+    }
+  }
+
+  const contents = new Map<string, string | null>();
+  for (const { path, before } of [...run.entries].reverse()) {
+    contents.set(path, before);
+  }
+  contents.set(
+    journalPath,
+    `${JSON.stringify({ runs: runs.slice(0, -1) }, null, 2)}\n`,
+  );
+  await transact(fs, await backup(fs, contents));
+  return run;
+};
@@ -0,0 +1,65 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { codeMod, type CodeModTarget, undo } from "./codemod.ts";
+import { inMemoryFS } from "./memfs.ts";
+import { applyTransaction, DEFAULT_JOURNAL_PATH } from "./transaction.ts";
+
+/**
+ * Creates a target that sets the content of a.txt.
+ * @param {string} content - The new content.
+ * @returns {CodeModTarget} The target.
+ */
+const setA = (content: string): CodeModTarget => ({
+  include: ["a.txt"],
+  apply: ({ path }) => ({ path, content }),
+});
+
+Deno.test("undo reverts the last run with changes after a run without changes", async () => {
+  const fs = inMemoryFS({ "a.txt": "m1" });
+  const run = (content: string) =>
+    codeMod({
+      targets: [setA(content)],
+      context: { fs, formatters: {} },
+      yPrompt: false,
+    });
+
+  await run("m2");
+  await run("m2");
+  const { runs } = JSON.parse(
+    await fs.readTextFile(`/${DEFAULT_JOURNAL_PATH}`),
+  );
+  assertEquals(runs.length, 1);
+
+  await undo({ fs });
+  assertEquals(await fs.readTextFile("/a.txt"), "m1");
+});
+
+Deno.test("applyTransaction rolls back the written files when a write fails", async () => {
+  const memory = inMemoryFS({ "a.txt": "a", "b.txt": "b" });
+  const fs = {
+    ...memory,
+    writeTextFile: (path: string, content: string) =>
+      content === "B"
+        ? Promise.reject(new Error("disk full"))
+        : memory.writeTextFile(path, content),
+  };
+  await assertRejects(
+    () =>
+      applyTransaction(
+        [
+          {
+            from: { path: "/a.txt", content: "a" },
+            to: { path: "/a.txt", content: "A" },
+          },
+          {
+            from: { path: "/b.txt", content: "b" },
+            to: { path: "/b.txt", content: "B" },
+          },
+        ],
+        fs,
+        { name: "upper" },
+      ),
+    Error,
+    "All changes were rolled back",
+  );
+  assertEquals(memory.snapshot(), { "a.txt": "a", "b.txt": "b" });
+});
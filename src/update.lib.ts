@@ -5,7 +5,8 @@ import { join } from "@std/path";
 import * as semver from "@std/semver";
 import type { DenoJSON } from "./denoJSON.ts";
 import { pkgInfo } from "./pkg.ts";
-import { lookup, REGISTRIES } from "./registry.ts";
+import { lookup, REGISTRIES, type RegistryUrl } from "./registry.ts";
+import { consoleReporter, type Reporter } from "./reporter.ts";
 
 // map of `packageAlias` to `packageRepo`
 const PACKAGES_TO_CHECK =
@@ -15,9 +16,46 @@ const requiredMinVersion: Record<string, string> = {
   // "std/": "0.208.0",
 };
 
-const flags = parse(Deno.args, {
-  boolean: ["allow-pre"],
-});
+/**
+ * Describes a dependency upgraded in an import map.
+ */
+export interface DependencyUpgrade {
+  // the import map key.
+  package: string;
+  from: string;
+  to: string;
+  // the registry the dependency is published to, e.g. Jsr or DenoLand.
+  registry: string;
+}
+
+/**
+ * Represents options for upgrading dependencies.
+ */
+export interface UpgradeOptions {
+  // if true, prereleases are eligible as the latest version.
+  allowPre?: boolean;
+  // if true, dependencies whose current version is not a valid semver are upgraded too.
+  force?: boolean;
+  // called for each upgraded dependency.
+  onUpgrade?: (upgrade: DependencyUpgrade) => void;
+  // called for each outdated dependency that was not upgraded.
+  onSkip?: (pkg: string, reason: string) => void;
+  // called when the versions of a dependency cannot be fetched, the error is thrown afterwards.
+  onRegistryError?: (pkg: string, error: Error) => void;
+  // lists the published versions of a dependency, newest first. Its registry is queried by default.
+  versionsOf?: (pkg: string, url: RegistryUrl) => Promise<string[]>;
+}
+
+/**
+ * Reads the upgrade options from command line flags (`--allow-pre` and `--force`).
+ * @param {string[]} [args=Deno.args] - The command line arguments.
+ * @returns {UpgradeOptions} The upgrade options.
+ */
+export const upgradeFlags = (args: string[] = Deno.args): UpgradeOptions => {
+  const flags = parse(args, { boolean: ["allow-pre", "force"] });
+  return { allowPre: flags["allow-pre"], force: flags.force };
+};
+
 const denoJSONFileNames = ["deno.json", "deno.jsonc"];
 const getDenoJSONPath = async (cwd = Deno.cwd()) => {
   for (const importFileName of denoJSONFileNames) {
@@ -66,6 +104,7 @@ async function* getImportMaps(
  * @param importMap the importmap (or deno.json) to upgrade
  * @param logs whether to log the upgrade process
  * @param packages a regex to filter which packages to upgrade
+ * @param options the upgrade options, unset flags are read from the command line
  * @returns a boolean indicating if any upgrades were made
  */
 export async function upgradeDeps(
@@ -73,7 +112,17 @@ export async function upgradeDeps(
   logs = true,
   deps = PACKAGES_TO_CHECK,
   logger = console.info,
+  options: UpgradeOptions = {},
 ): Promise<boolean> {
+  const flags = upgradeFlags();
+  const {
+    allowPre = flags.allowPre,
+    force = flags.force,
+    onUpgrade,
+    onSkip,
+    onRegistryError,
+    versionsOf,
+  } = options;
   let upgradeFound = false;
   logs && logger("looking up latest versions");
 
@@ -85,7 +134,15 @@ export async function upgradeDeps(
       .map(async (pkg) => {
         const info = await pkgInfo(
           imports[pkg],
-          flags["allow-pre"],
+          allowPre,
+          versionsOf && ((url) => versionsOf(pkg, url)),
+        ).catch(
+          (err: Error) => {
+            onRegistryError
+              ? onRegistryError(pkg, err)
+              : logger(colors.red(err.message));
+            throw err;
+          },
         );
 
         if (!info?.versions?.latest) return;
@@ -98,10 +155,11 @@ export async function upgradeDeps(
           },
         } = info;
 
-        if (
-          !semver.canParse(currentVersion) &&
-          !Deno.args.includes("force")
-        ) {
+        if (!semver.canParse(currentVersion) && !force) {
+          onSkip?.(
+            pkg,
+            `${currentVersion} is not a semver version, use --force to upgrade to ${latestVersion}`,
+          );
           logs && logger(
             colors.yellow(
               `skipping ${pkg} ${currentVersion} -> ${latestVersion}. Use --force to upgrade.`,
@@ -117,6 +175,12 @@ export async function upgradeDeps(
 
           upgradeFound = true;
           imports[pkg] = url.at(latestVersion).url;
+          onUpgrade?.({
+            package: pkg,
+            from: currentVersion,
+            to: latestVersion,
+            registry: url.id,
+          });
         }
       }),
   );
@@ -139,6 +203,12 @@ export async function upgradeDeps(
         upgradeFound = true;
         imports[pkg] = url?.at(minVer).url ??
           imports[pkg];
+        url && onUpgrade?.({
+          package: pkg,
+          from: url.version(),
+          to: minVer,
+          registry: url.id,
+        });
       }
     }
   }
@@ -155,18 +225,25 @@ export async function upgradeDeps(
 export async function* updatedImportMap(
   logs: boolean = true,
   cwd: string = Deno.cwd(),
+  options?: UpgradeOptions,
+  reporter: Reporter = consoleReporter,
 ): AsyncIterableIterator<[DenoJSON, string]> {
   for await (const [importMap, importMapPath] of getImportMaps(cwd)) {
     const logger = (...msg: unknown[]) =>
-      console.info(
-        colors.gray(`${importMapPath.replaceAll(Deno.cwd(), ".")}:`),
-        ...msg,
-      );
+      reporter.report({
+        type: "message",
+        level: "info",
+        message: [
+          colors.gray(`${importMapPath.replaceAll(Deno.cwd(), ".")}:`),
+          ...msg,
+        ].join(" "),
+      });
     const upgradeFound = await upgradeDeps(
       importMap,
       logs,
       PACKAGES_TO_CHECK,
       logger,
+      options,
     );
     if (upgradeFound) {
       yield [importMap, importMapPath];
@@ -177,9 +254,16 @@ export async function* updatedImportMap(
 
 export async function update(
   cwd: string = Deno.cwd(),
+  options?: UpgradeOptions,
+  reporter: Reporter = consoleReporter,
 ) {
   for await (
-    const [importMap, importMapPath] of updatedImportMap(true, cwd)
+    const [importMap, importMapPath] of updatedImportMap(
+      true,
+      cwd,
+      options,
+      reporter,
+    )
   ) {
     await Deno.writeTextFile(
       importMapPath,
@@ -0,0 +1,71 @@
+import { parseDocument } from "npm:yaml@2.9.1";
+import type { CodeModContext, FilePatcher, JsonPatcher } from "./codemod.ts";
+import { valueEdits } from "./jsonc.ts";
+
+/**
+ * Parses a YAML document.
+ * @template T The type of the parsed content.
+ * @param {string} content - The document content.
+ * @param {string} [path] - The file path, used in error messages.
+ * @returns {T} The parsed content.
+ * @throws {Error} - Throws an error if the document is not valid YAML.
+ */
+export const parseYAML = <T = unknown>(content: string, path?: string): T => {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(
+      `could not parse ${path ?? "YAML"}: ${doc.errors[0].message}`,
+    );
+  }
+  return doc.toJS() as T;
+};
+
+/**
+ * Creates a FilePatcher for YAML files, e.g. GitHub workflows, that keeps comments, key order and styles.
+ * Only the values changed by the patcher are rewritten.
+ * @template TIn The type of the input YAML content.
+ * @template TOut The type of the output YAML content.
+ * @template TContext The type of the CodeModContext.
+ * @param {JsonPatcher<TIn, TContext, TOut>} f - The YAML patcher function.
+ * @returns {FilePatcher<TContext>} A file patcher function.
+ */
+export const yaml = <
+  TIn,
+  TOut = TIn,
+  TContext extends CodeModContext = CodeModContext,
+>(f: JsonPatcher<TIn, TContext, TOut>): FilePatcher<TContext> =>
+async ({ path, content }, ctx) => {
+  const before = parseYAML<TIn>(content, path);
+  // the patcher gets its own copy, so it can mutate it in place.
+  const result = await f({ path, content: structuredClone(before) }, ctx);
+
+  if ("deleted" in result) {
+    return result;
+  }
+  const edits = valueEdits(before, result.content);
+  if (edits.length === 0) {
+    return { path: result.path, content };
+  }
+  const doc = parseDocument(content);
+  for (const edit of edits) {
+    if (edit.path.length === 0) {
+      doc.contents = doc.createNode(edit.value) as typeof doc.contents;
+    } else if (edit.value === undefined) {
+      doc.deleteIn(edit.path);
+    } else {
+      // scalars are set as plain values, so the existing node keeps its comment and quotes.
+      doc.setIn(
+        edit.path,
+        edit.value instanceof Date
+          ? edit.value.toISOString()
+          : typeof edit.value === "object" && edit.value !== null
+          ? doc.createNode(edit.value)
+          : edit.value,
+      );
+    }
+  }
+  return {
+    path: result.path,
+    content: doc.toString(),
+  };
+};
@@ -0,0 +1,51 @@
+import { yaml } from "./yaml.ts";
+import { testCodeMod } from "./testing.ts";
+
+interface Workflow {
+  on: Record<string, unknown>;
+  jobs: Record<string, { steps: { uses?: string }[] }>;
+}
+
+Deno.test("yaml rewrites only the changed values, keeping comments and quotes", async () => {
+  const workflow = (version: string) =>
+    [
+      "# deploys on every push",
+      "on:",
+      "  push: { branches: [ 'main' ] }",
+      "jobs:",
+      "  build:",
+      "    steps:",
+      `      - uses: "denoland/setup-deno@${version}" # pinned`,
+      "      - run: deno task build",
+      "",
+    ].join("\n");
+  await testCodeMod({
+    input: { ".github/workflows/deploy.yml": workflow("v1") },
+    targets: [{
+      include: ["**/*.yml"],
+      apply: yaml<Workflow>(({ path, content }) => {
+        for (const step of content.jobs.build.steps) {
+          step.uses = step.uses?.replace("@v1", "@v2");
+        }
+        return { path, content };
+      }),
+    }],
+    expected: { ".github/workflows/deploy.yml": workflow("v2") },
+  });
+});
+
+Deno.test("yaml sets a date as a value, keeping its comment", async () => {
+  await testCodeMod({
+    input: { "release.yml": "released: 2020-01-01 # the first release\n" },
+    targets: [{
+      include: ["release.yml"],
+      apply: yaml<{ released: unknown }>(({ path, content }) => {
+        content.released = new Date("2021-06-01T00:00:00Z");
+        return { path, content };
+      }),
+    }],
+    expected: {
+      "release.yml": "released: 2021-06-01T00:00:00.000Z # the first release\n",
+    },
+  });
+});